@@ -0,0 +1,497 @@
+"use client";
+
+import { FormEvent, Suspense, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import * as Sentry from "@sentry/nextjs";
+import {
+  AGE_BANDS,
+  AgeBandId,
+  ChildProfile,
+  DEFAULT_AGE_BAND,
+  getAgeBand,
+} from "@/lib/accounts/profiles";
+import { LANGUAGES, LanguageCode, getLanguage } from "@/lib/languages";
+import { clearSavedStories } from "@/lib/offline-library";
+
+interface AccountInfo {
+  id: string;
+  email: string;
+  // Whether this parent agreed to recording and storage
+  parentalConsent: boolean;
+}
+
+// An empty language asks the server to detect it from each request
+type ProfileInput = Omit<ChildProfile, "id" | "language"> & { language: LanguageCode | "" };
+
+const LINK_ERRORS: Record<string, string> = {
+  link: "That sign-in link has expired or was already used. Request a new one.",
+  server: "Could not sign you in. Please try again.",
+};
+
+const inputClass =
+  "w-full rounded-xl border border-white/20 bg-white/10 px-4 py-3 text-white placeholder:text-white/40 focus:border-violet-400 focus:outline-none";
+const primaryButtonClass =
+  "rounded-full bg-violet-500/80 px-4 py-2 text-sm text-white transition-colors hover:bg-violet-500 disabled:cursor-not-allowed disabled:opacity-50";
+const secondaryButtonClass =
+  "rounded-full border border-white/20 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/10 hover:text-white disabled:cursor-not-allowed disabled:opacity-50";
+
+async function errorFrom(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const splitList = (value: string) =>
+  value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+function ProfileForm({
+  initial,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initial?: ChildProfile;
+  submitLabel: string;
+  onSubmit: (input: ProfileInput) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [name, setName] = useState(initial?.name ?? "");
+  const [ageBand, setAgeBand] = useState<AgeBandId>(initial?.ageBand ?? DEFAULT_AGE_BAND);
+  const [language, setLanguage] = useState<LanguageCode | "">(initial?.language ?? "");
+  const [interests, setInterests] = useState(initial?.preferences.interests.join(", ") ?? "");
+  const [avoid, setAvoid] = useState(initial?.preferences.avoid.join(", ") ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    const saved = await onSubmit({
+      name,
+      ageBand,
+      language,
+      preferences: { interests: splitList(interests), avoid: splitList(avoid) },
+    });
+    setIsSaving(false);
+
+    if (saved && !initial) {
+      setName("");
+      setLanguage("");
+      setInterests("");
+      setAvoid("");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-3">
+      <input
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Child's name"
+        maxLength={40}
+        required
+        className={inputClass}
+      />
+      <select
+        value={ageBand}
+        onChange={(e) => setAgeBand(e.target.value as AgeBandId)}
+        className={inputClass}
+      >
+        {AGE_BANDS.map((band) => (
+          <option key={band.id} value={band.id} className="bg-slate-900">
+            {band.label}
+          </option>
+        ))}
+      </select>
+      <select
+        value={language}
+        onChange={(e) => setLanguage(e.target.value as LanguageCode | "")}
+        className={inputClass}
+      >
+        <option value="" className="bg-slate-900">
+          Language: detect when they talk
+        </option>
+        {LANGUAGES.map((option) => (
+          <option key={option.code} value={option.code} className="bg-slate-900">
+            Speaks {option.name}
+          </option>
+        ))}
+      </select>
+      <input
+        value={interests}
+        onChange={(e) => setInterests(e.target.value)}
+        placeholder="Loves (e.g. dinosaurs, space, trains)"
+        className={inputClass}
+      />
+      <input
+        value={avoid}
+        onChange={(e) => setAvoid(e.target.value)}
+        placeholder="Keep out of stories (e.g. spiders, storms)"
+        className={inputClass}
+      />
+      <div className="flex gap-2">
+        <button type="submit" disabled={isSaving} className={primaryButtonClass}>
+          {submitLabel}
+        </button>
+        {onCancel && (
+          <button type="button" onClick={onCancel} className={secondaryButtonClass}>
+            Cancel
+          </button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+function SignIn({ onSignedIn }: { onSignedIn: () => void }) {
+  const searchParams = useSearchParams();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [message, setMessage] = useState("");
+  const [errorMessage, setErrorMessage] = useState(
+    LINK_ERRORS[searchParams.get("error") ?? ""] ?? ""
+  );
+  const [isBusy, setIsBusy] = useState(false);
+
+  const submit = async (endpoint: string, body: Record<string, string>) => {
+    setIsBusy(true);
+    setErrorMessage("");
+    setMessage("");
+
+    try {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      if (!response.ok) {
+        setErrorMessage(await errorFrom(response, "Something went wrong"));
+        return;
+      }
+
+      if (response.status === 202) {
+        setMessage(
+          endpoint === "/api/auth/signup"
+            ? `We sent a link to ${email}. Follow it to confirm your address and sign in.`
+            : `We sent a sign-in link to ${email}. It works for 15 minutes.`
+        );
+      } else {
+        onSignedIn();
+      }
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "account", action: "sign-in" },
+      });
+      setErrorMessage("Something went wrong. Please try again.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        submit("/api/auth/login", { email, password });
+      }}
+      className="flex flex-col gap-3"
+    >
+      <input
+        type="email"
+        value={email}
+        onChange={(e) => setEmail(e.target.value)}
+        placeholder="Email"
+        autoComplete="email"
+        required
+        className={inputClass}
+      />
+      <input
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        placeholder="Password"
+        autoComplete="current-password"
+        className={inputClass}
+      />
+
+      {errorMessage && <p className="text-pink-400 text-sm">{errorMessage}</p>}
+      {message && <p className="text-emerald-400 text-sm">{message}</p>}
+
+      <div className="flex flex-wrap gap-2">
+        <button type="submit" disabled={isBusy || !password} className={primaryButtonClass}>
+          Sign in
+        </button>
+        <button
+          type="button"
+          disabled={isBusy || !email || !password}
+          onClick={() => submit("/api/auth/signup", { email, password })}
+          className={secondaryButtonClass}
+        >
+          Create account
+        </button>
+        <button
+          type="button"
+          disabled={isBusy || !email}
+          onClick={() => submit("/api/auth/magic-link", { email })}
+          className={secondaryButtonClass}
+        >
+          Email me a link instead
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function Account() {
+  const [account, setAccount] = useState<AccountInfo | null>(null);
+  const [profiles, setProfiles] = useState<ChildProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState("");
+
+  const loadAccount = useCallback(async () => {
+    try {
+      const response = await fetch("/api/auth/me");
+      if (response.status === 401) {
+        setAccount(null);
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to load account");
+
+      const data = await response.json();
+      setAccount(data.account);
+      setProfiles(data.profiles);
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "account" },
+      });
+      setErrorMessage("Could not load your account. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccount();
+  }, [loadAccount]);
+
+  const signOut = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" });
+    setAccount(null);
+    setProfiles([]);
+    await clearSavedStories().catch((error) => {
+      Sentry.captureException(error, {
+        tags: { component: "offline-library", action: "clear" },
+      });
+    });
+  }, []);
+
+  const saveProfile = useCallback(async (input: ProfileInput, id?: string) => {
+    setErrorMessage("");
+    try {
+      const response = await fetch(id ? `/api/profiles/${id}` : "/api/profiles", {
+        method: id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(input),
+      });
+      if (!response.ok) {
+        setErrorMessage(await errorFrom(response, "Could not save this profile."));
+        return false;
+      }
+
+      const { profile } = (await response.json()) as { profile: ChildProfile };
+      setProfiles((current) =>
+        id ? current.map((item) => (item.id === id ? profile : item)) : [...current, profile]
+      );
+      setEditingId(null);
+      return true;
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "account", action: "save-profile" },
+      });
+      setErrorMessage("Could not save this profile.");
+      return false;
+    }
+  }, []);
+
+  const setParentalConsent = useCallback(async (consent: boolean) => {
+    setErrorMessage("");
+    try {
+      const response = await fetch("/api/consent", {
+        method: consent ? "POST" : "DELETE",
+        headers: { "Content-Type": "application/json" },
+        body: consent ? JSON.stringify({ consent: true }) : undefined,
+      });
+      if (!response.ok) throw new Error("Failed to update consent");
+      setAccount((current) => current && { ...current, parentalConsent: consent });
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "account", action: "consent" },
+      });
+      setErrorMessage("Could not update your consent. Please try again.");
+    }
+  }, []);
+
+  const deleteProfile = useCallback(async (profile: ChildProfile) => {
+    if (!window.confirm(`Delete ${profile.name}'s profile?`)) return;
+
+    try {
+      const response = await fetch(`/api/profiles/${profile.id}`, { method: "DELETE" });
+      if (!response.ok && response.status !== 404) {
+        throw new Error("Failed to delete profile");
+      }
+      setProfiles((current) => current.filter((item) => item.id !== profile.id));
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "account", action: "delete-profile" },
+      });
+      setErrorMessage("Could not delete this profile.");
+    }
+  }, []);
+
+  return (
+    <div className="min-h-svh bg-linear-to-br from-violet-950 via-slate-900 to-slate-950 p-4">
+      <main className="mx-auto flex max-w-2xl flex-col gap-6 py-8">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-1 tracking-tight">
+              {account ? "Child Profiles" : "Sign In"}
+            </h1>
+            <p className="text-white/60 text-sm">
+              {account
+                ? `Signed in as ${account.email}`
+                : "Stories made for each of your children"}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {account && (
+              <button onClick={signOut} className={secondaryButtonClass}>
+                Sign out
+              </button>
+            )}
+            <Link
+              href="/"
+              className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/15 hover:text-white"
+            >
+              Back
+            </Link>
+          </div>
+        </div>
+
+        {errorMessage && <p className="text-pink-400 text-sm">{errorMessage}</p>}
+
+        {!isLoading && !account && <SignIn onSignedIn={loadAccount} />}
+
+        {account && (
+          <>
+            <ul className="flex flex-col gap-4">
+              {profiles.map((profile) => (
+                <li
+                  key={profile.id}
+                  className="rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-sm"
+                >
+                  {editingId === profile.id ? (
+                    <ProfileForm
+                      initial={profile}
+                      submitLabel="Save"
+                      onSubmit={(input) => saveProfile(input, profile.id)}
+                      onCancel={() => setEditingId(null)}
+                    />
+                  ) : (
+                    <>
+                      <div className="mb-2 flex items-center justify-between gap-2">
+                        <span className="text-lg font-medium text-white">{profile.name}</span>
+                        <span className="rounded-full bg-violet-500/20 px-2 py-0.5 text-xs text-violet-300">
+                          {getAgeBand(profile.ageBand).label}
+                          {profile.language && ` · ${getLanguage(profile.language).nativeName}`}
+                        </span>
+                      </div>
+                      {profile.preferences.interests.length > 0 && (
+                        <p className="text-sm text-white/70">
+                          Loves {profile.preferences.interests.join(", ")}
+                        </p>
+                      )}
+                      {profile.preferences.avoid.length > 0 && (
+                        <p className="text-sm text-white/50">
+                          No {profile.preferences.avoid.join(", ")}
+                        </p>
+                      )}
+                      <div className="mt-4 flex gap-2">
+                        <button
+                          onClick={() => setEditingId(profile.id)}
+                          className="rounded-full bg-violet-500/80 px-4 py-1.5 text-sm text-white transition-colors hover:bg-violet-500"
+                        >
+                          Edit
+                        </button>
+                        <button
+                          onClick={() => deleteProfile(profile)}
+                          className="rounded-full border border-white/20 px-4 py-1.5 text-sm text-white/70 transition-colors hover:border-pink-400 hover:text-pink-400"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </li>
+              ))}
+            </ul>
+
+            {account.parentalConsent && (
+              <section className="rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-sm">
+                <h2 className="mb-3 text-white font-medium">Add a child</h2>
+                <ProfileForm submitLabel="Add profile" onSubmit={(input) => saveProfile(input)} />
+              </section>
+            )}
+
+            <section className="rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-sm">
+              <h2 className="mb-2 text-white font-medium">Privacy</h2>
+              {account.parentalConsent ? (
+                <>
+                  <p className="mb-3 text-sm text-white/60">
+                    You agreed to your children being recorded and their stories being kept in
+                    your history. Withdrawing stops recording until you agree again.
+                  </p>
+                  <button
+                    onClick={() => setParentalConsent(false)}
+                    className={secondaryButtonClass}
+                  >
+                    Withdraw consent
+                  </button>
+                </>
+              ) : (
+                <>
+                  <p className="mb-3 text-sm text-white/60">
+                    Stories start with a recording of your child&apos;s voice, which is sent to
+                    our speech and story services. Agree to this before adding children or
+                    recording.
+                  </p>
+                  <button
+                    onClick={() => setParentalConsent(true)}
+                    className={primaryButtonClass}
+                  >
+                    I&apos;m the parent or guardian, and I agree
+                  </button>
+                </>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
+
+// useSearchParams needs a Suspense boundary to prerender
+export default function AccountPage() {
+  return (
+    <Suspense>
+      <Account />
+    </Suspense>
+  );
+}
@@ -0,0 +1,223 @@
+"use client";
+
+import { FormEvent, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import * as Sentry from "@sentry/nextjs";
+
+interface ApiKeySummary {
+  id: string;
+  name: string;
+  prefix: string;
+  createdAt: string;
+  revokedAt: string | null;
+}
+
+const inputClass =
+  "w-full rounded-xl border border-white/20 bg-white/10 px-4 py-3 text-white placeholder:text-white/40 focus:border-violet-400 focus:outline-none";
+const primaryButtonClass =
+  "rounded-full bg-violet-500/80 px-4 py-2 text-sm text-white transition-colors hover:bg-violet-500 disabled:cursor-not-allowed disabled:opacity-50";
+
+async function errorFrom(response: Response, fallback: string): Promise<string> {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString(undefined, { year: "numeric", month: "short", day: "numeric" });
+
+export default function AdminPage() {
+  const [keys, setKeys] = useState<ApiKeySummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // Why the page can't be used: not signed in, or not an admin
+  const [deniedMessage, setDeniedMessage] = useState("");
+  const [errorMessage, setErrorMessage] = useState("");
+  const [name, setName] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  // The key just created, shown until the page is left
+  const [newSecret, setNewSecret] = useState<{ name: string; secret: string } | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    try {
+      const response = await fetch("/api/admin/api-keys");
+      if (response.status === 401 || response.status === 403) {
+        setDeniedMessage(
+          response.status === 401
+            ? "Sign in with an admin account to manage API keys."
+            : "Your account isn't an admin. Ask to be added to ADMIN_EMAILS, then confirm " +
+                "your email with a sign-in link."
+        );
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to load API keys");
+
+      const data = await response.json();
+      setKeys(data.keys);
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "admin", action: "load-keys" },
+      });
+      setErrorMessage("Could not load API keys. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const createKey = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+    setErrorMessage("");
+
+    try {
+      const response = await fetch("/api/admin/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      if (!response.ok) {
+        setErrorMessage(await errorFrom(response, "Could not create the key."));
+        return;
+      }
+
+      const data = (await response.json()) as { key: ApiKeySummary; secret: string };
+      setKeys((current) => [data.key, ...current]);
+      setNewSecret({ name: data.key.name, secret: data.secret });
+      setName("");
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "admin", action: "create-key" },
+      });
+      setErrorMessage("Could not create the key.");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const revokeKey = useCallback(async (key: ApiKeySummary) => {
+    if (!window.confirm(`Revoke "${key.name}"? Devices using it will stop working.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/api-keys/${key.id}`, { method: "DELETE" });
+      if (!response.ok) {
+        setErrorMessage(await errorFrom(response, "Could not revoke the key."));
+        return;
+      }
+      const revokedAt = new Date().toISOString();
+      setKeys((current) =>
+        current.map((item) => (item.id === key.id ? { ...item, revokedAt } : item))
+      );
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "admin", action: "revoke-key" },
+      });
+      setErrorMessage("Could not revoke the key.");
+    }
+  }, []);
+
+  return (
+    <div className="min-h-svh bg-linear-to-br from-violet-950 via-slate-900 to-slate-950 p-4">
+      <main className="mx-auto flex max-w-2xl flex-col gap-6 py-8">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-1 tracking-tight">API Keys</h1>
+            <p className="text-white/60 text-sm">
+              Keys for partner devices calling{" "}
+              <a href="/api/v1/openapi.json" className="underline hover:text-white">
+                /api/v1
+              </a>
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/15 hover:text-white"
+          >
+            Back
+          </Link>
+        </div>
+
+        {deniedMessage && (
+          <p className="text-white/70">
+            {deniedMessage}{" "}
+            <Link href="/account" className="text-violet-300 underline hover:text-violet-200">
+              Account
+            </Link>
+          </p>
+        )}
+
+        {errorMessage && <p className="text-pink-400 text-sm">{errorMessage}</p>}
+
+        {!isLoading && !deniedMessage && (
+          <>
+            <section className="rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-sm">
+              <h2 className="mb-3 text-white font-medium">New key</h2>
+              <form onSubmit={createKey} className="flex gap-2">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Who it's for, e.g. Acme bedtime speaker"
+                  maxLength={80}
+                  required
+                  className={inputClass}
+                />
+                <button
+                  type="submit"
+                  disabled={isCreating || !name.trim()}
+                  className={`${primaryButtonClass} shrink-0`}
+                >
+                  Create
+                </button>
+              </form>
+
+              {newSecret && (
+                <div className="mt-4 rounded-xl border border-emerald-400/30 bg-emerald-400/10 p-3">
+                  <p className="mb-2 text-sm text-emerald-300">
+                    The key for {newSecret.name}. Copy it now; it won&apos;t be shown again.
+                  </p>
+                  <code className="block break-all rounded-lg bg-black/30 px-3 py-2 text-sm text-white">
+                    {newSecret.secret}
+                  </code>
+                </div>
+              )}
+            </section>
+
+            {keys.length === 0 ? (
+              <p className="text-white/50 text-sm">No API keys yet.</p>
+            ) : (
+              <ul className="flex flex-col gap-3">
+                {keys.map((key) => (
+                  <li
+                    key={key.id}
+                    className="flex items-center justify-between gap-4 rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-sm"
+                  >
+                    <div className={key.revokedAt ? "opacity-50" : undefined}>
+                      <p className="text-white font-medium">{key.name}</p>
+                      <p className="text-sm text-white/50">
+                        <code>{key.prefix}…</code> · created {formatDate(key.createdAt)}
+                        {key.revokedAt && ` · revoked ${formatDate(key.revokedAt)}`}
+                      </p>
+                    </div>
+                    {!key.revokedAt && (
+                      <button
+                        onClick={() => revokeKey(key)}
+                        className="rounded-full border border-white/20 px-4 py-1.5 text-sm text-white/70 transition-colors hover:border-pink-400 hover:text-pink-400"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
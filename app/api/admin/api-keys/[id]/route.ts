@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { requireAdmin } from "@/lib/accounts/admin";
+import { getApiKeyStore } from "@/lib/api/keys";
+
+export const runtime = "nodejs";
+
+interface ApiKeyRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Revokes a key; requests made with it are refused from then on
+export async function DELETE(request: NextRequest, { params }: ApiKeyRouteContext) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+    if (!(await getApiKeyStore().revoke(id))) {
+      return NextResponse.json({ error: "API key not found" }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "api-keys", action: "revoke" },
+    });
+
+    return NextResponse.json({ error: "Failed to revoke API key" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { requireAdmin } from "@/lib/accounts/admin";
+import { MAX_KEY_NAME_LENGTH, apiKeySummary, getApiKeyStore } from "@/lib/api/keys";
+import { readJsonObject } from "@/lib/json-body";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const keys = await getApiKeyStore().list();
+    return NextResponse.json({ keys: keys.map(apiKeySummary) });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "api-keys", action: "list" },
+    });
+
+    return NextResponse.json({ error: "Failed to load API keys" }, { status: 500 });
+  }
+}
+
+// Issues a key. The response is the only time the key itself is shown.
+export async function POST(request: NextRequest) {
+  const denied = await requireAdmin(request);
+  if (denied) return denied;
+
+  try {
+    const body = await readJsonObject(request);
+    const name = typeof body.name === "string" ? body.name.trim() : "";
+    if (!name || name.length > MAX_KEY_NAME_LENGTH) {
+      return NextResponse.json(
+        { error: `A key needs a name of up to ${MAX_KEY_NAME_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+
+    const { apiKey, secret } = await getApiKeyStore().create(name);
+    return NextResponse.json({ key: apiKeySummary(apiKey), secret }, { status: 201 });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "api-keys", action: "create" },
+    });
+
+    return NextResponse.json({ error: "Failed to create API key" }, { status: 500 });
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { accountSummary, getAccountStore, normalizeEmail } from "@/lib/accounts/store";
+import { checkPassword, setSessionCookie } from "@/lib/accounts/auth";
+import { consumeAuthAttempt } from "@/lib/rate-limit";
+import { readJsonObject } from "@/lib/json-body";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject(request);
+    const email = normalizeEmail(body.email);
+    const password = typeof body.password === "string" ? body.password : "";
+
+    const limit = await consumeAuthAttempt(request, email);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const account = email ? await getAccountStore().findByEmail(email) : null;
+    const valid = await checkPassword(password, account?.passwordHash);
+
+    // Same answer, in the same time, for unknown emails and wrong passwords
+    if (!account || !valid) {
+      return NextResponse.json({ error: "Wrong email or password" }, { status: 401 });
+    }
+    if (!account.emailVerifiedAt) {
+      return NextResponse.json(
+        { error: "Confirm your email address first, with the link we sent you" },
+        { status: 403 }
+      );
+    }
+
+    const response = NextResponse.json(accountSummary(account));
+    setSessionCookie(response, account.id);
+    return response;
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "auth-api", action: "login" },
+    });
+
+    return NextResponse.json({ error: "Failed to sign in" }, { status: 500 });
+  }
+}
@@ -0,0 +1,8 @@
+import { NextResponse } from "next/server";
+import { clearSessionCookie } from "@/lib/accounts/auth";
+
+export async function POST() {
+  const response = new NextResponse(null, { status: 204 });
+  clearSessionCookie(response);
+  return response;
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { normalizeEmail } from "@/lib/accounts/store";
+import { MAGIC_LINK_TTL_SECONDS, magicLinkUrl } from "@/lib/accounts/auth";
+import { getMailer } from "@/lib/accounts/mailer";
+import { consumeAuthAttempt } from "@/lib/rate-limit";
+import { readJsonObject } from "@/lib/json-body";
+
+export const runtime = "nodejs";
+
+// Emails a single-use sign-in link. The account is created when the link
+// is first followed, so typing an address here never reveals whether it
+// already has one.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject(request);
+    const email = normalizeEmail(body.email);
+
+    if (!email) {
+      return NextResponse.json({ error: "Enter a valid email address" }, { status: 400 });
+    }
+    const limit = await consumeAuthAttempt(request, email);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const link = magicLinkUrl(email, request.nextUrl.origin);
+
+    await getMailer().send({
+      to: email,
+      subject: "Your sign-in link",
+      text: `Follow this link to sign in. It works once and expires in ${
+        MAGIC_LINK_TTL_SECONDS / 60
+      } minutes.\r\n\r\n${link}`,
+    });
+
+    return new NextResponse(null, { status: 202 });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "auth-api", action: "magic-link" },
+    });
+
+    return NextResponse.json({ error: "Failed to send sign-in link" }, { status: 500 });
+  }
+}
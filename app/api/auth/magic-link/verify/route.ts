@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { EmailTakenError, getAccountStore } from "@/lib/accounts/store";
+import { redeemMagicLink, setSessionCookie } from "@/lib/accounts/auth";
+
+export const runtime = "nodejs";
+
+// Signs in from an emailed link and lands on the account page, creating
+// the account on first use. The first link followed also confirms the
+// email address.
+export async function GET(request: NextRequest) {
+  const accountPage = new URL("/account", request.nextUrl.origin);
+
+  try {
+    const link = await redeemMagicLink(request.nextUrl.searchParams.get("token") ?? "");
+    if (!link) {
+      accountPage.searchParams.set("error", "link");
+      return NextResponse.redirect(accountPage);
+    }
+
+    const store = getAccountStore();
+    const now = new Date().toISOString();
+    let account = await store.findByEmail(link.email);
+    if (!account) {
+      try {
+        account = await store.create(link.email, { emailVerifiedAt: now });
+      } catch (error) {
+        // Another request created it first
+        if (!(error instanceof EmailTakenError)) throw error;
+        account = await store.findByEmail(link.email);
+      }
+    }
+    if (!account) throw new Error("Account missing after sign-up");
+
+    // A password chosen before the address was confirmed is only kept
+    // when this is the link sent to confirm it. Otherwise whoever signed
+    // up with someone else's address could keep signing in as them.
+    if (!account.emailVerifiedAt) {
+      const { confirmationId, ...rest } = account;
+      account = {
+        ...rest,
+        emailVerifiedAt: now,
+        passwordHash: confirmationId === link.id ? account.passwordHash : undefined,
+      };
+      await store.update(account);
+    }
+
+    const response = NextResponse.redirect(accountPage);
+    setSessionCookie(response, account.id);
+    return response;
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "auth-api", action: "magic-link-verify" },
+    });
+
+    accountPage.searchParams.set("error", "server");
+    return NextResponse.redirect(accountPage);
+  }
+}
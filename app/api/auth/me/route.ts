@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { accountSummary } from "@/lib/accounts/store";
+import { getSignedInAccount } from "@/lib/accounts/auth";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const account = await getSignedInAccount(request);
+
+  if (!account) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  return NextResponse.json(accountSummary(account));
+}
@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { EmailTakenError, getAccountStore, normalizeEmail } from "@/lib/accounts/store";
+import {
+  MAGIC_LINK_TTL_SECONDS,
+  MIN_PASSWORD_LENGTH,
+  hashPassword,
+  magicLinkUrl,
+} from "@/lib/accounts/auth";
+import { getMailer } from "@/lib/accounts/mailer";
+import { consumeAuthAttempt } from "@/lib/rate-limit";
+import { readJsonObject } from "@/lib/json-body";
+
+export const runtime = "nodejs";
+
+// Creates a password account and emails a link to confirm the address.
+// The password only works once that link has been followed.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject(request);
+    const email = normalizeEmail(body.email);
+    const password = typeof body.password === "string" ? body.password : "";
+
+    if (!email) {
+      return NextResponse.json({ error: "Enter a valid email address" }, { status: 400 });
+    }
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 }
+      );
+    }
+    const limit = await consumeAuthAttempt(request, email);
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: "Too many attempts. Please try again later." },
+        { status: 429, headers: { "Retry-After": String(limit.retryAfter) } }
+      );
+    }
+
+    const confirmationId = randomUUID();
+    await getAccountStore().create(email, {
+      passwordHash: await hashPassword(password),
+      confirmationId,
+    });
+
+    const link = magicLinkUrl(email, request.nextUrl.origin, confirmationId);
+    await getMailer().send({
+      to: email,
+      subject: "Confirm your email address",
+      text: `Follow this link to confirm your address and sign in. It expires in ${
+        MAGIC_LINK_TTL_SECONDS / 60
+      } minutes; after that, ask for a sign-in link instead.\r\n\r\n${link}`,
+    });
+
+    return new NextResponse(null, { status: 202 });
+  } catch (error) {
+    if (error instanceof EmailTakenError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
+    }
+
+    Sentry.captureException(error, {
+      tags: { component: "auth-api", action: "signup" },
+    });
+
+    return NextResponse.json({ error: "Failed to create account" }, { status: 500 });
+  }
+}
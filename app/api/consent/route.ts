@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { getAccountStore } from "@/lib/accounts/store";
+import { getSignedInAccount } from "@/lib/accounts/auth";
+import {
+  clearConsentCookie,
+  hasParentalConsent,
+  setConsentCookie,
+} from "@/lib/accounts/consent";
+import { retentionDays } from "@/lib/retention";
+import { readJsonObject } from "@/lib/json-body";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    consent: await hasParentalConsent(request),
+    retentionDays: retentionDays(),
+  });
+}
+
+// Body: { "consent": true }, sent once a parent has agreed
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonObject(request);
+    if (body.consent !== true) {
+      return NextResponse.json({ error: "Consent must be given explicitly" }, { status: 400 });
+    }
+
+    const account = await getSignedInAccount(request);
+    if (account) {
+      account.parentalConsentAt = new Date().toISOString();
+      await getAccountStore().update(account);
+    }
+
+    const response = NextResponse.json({ consent: true });
+    setConsentCookie(response, account?.id ?? null);
+    return response;
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "consent-api", action: "give" },
+    });
+
+    return NextResponse.json({ error: "Failed to record consent" }, { status: 500 });
+  }
+}
+
+// Withdraws consent on this device and, when signed in, on the account.
+// Stories already saved stay until they expire or are deleted.
+export async function DELETE(request: NextRequest) {
+  try {
+    const account = await getSignedInAccount(request);
+    if (account?.parentalConsentAt) {
+      delete account.parentalConsentAt;
+      await getAccountStore().update(account);
+    }
+
+    const response = NextResponse.json({ consent: false });
+    clearConsentCookie(response);
+    return response;
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "consent-api", action: "withdraw" },
+    });
+
+    return NextResponse.json({ error: "Failed to withdraw consent" }, { status: 500 });
+  }
+}
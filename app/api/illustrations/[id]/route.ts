@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getIllustrationStore, imageMimeType } from "@/lib/illustration-store";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const image = await getIllustrationStore().get(id);
+
+  if (!image) {
+    return NextResponse.json({ error: "Illustration not found" }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(image.data), {
+    headers: {
+      "Content-Type": imageMimeType(image.format),
+      "Content-Length": String(image.data.length),
+      // Images never change once stored
+      "Cache-Control": "private, max-age=86400, immutable",
+      // SVG placeholders are shown as images only, never run as documents
+      "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+    },
+  });
+}
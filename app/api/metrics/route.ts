@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { renderMetrics } from "@/lib/metrics";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Scraped by Prometheus. When METRICS_TOKEN is set, scrapers must send it
+// as a bearer token.
+export async function GET(request: NextRequest) {
+  const token = process.env.METRICS_TOKEN;
+  if (token && request.headers.get("authorization") !== `Bearer ${token}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  return new Response(renderMetrics(), {
+    headers: {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
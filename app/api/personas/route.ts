@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { DEFAULT_PERSONA_ID, listPersonas } from "@/lib/personas";
+
+export async function GET() {
+  return NextResponse.json({
+    personas: listPersonas(),
+    defaultPersonaId: DEFAULT_PERSONA_ID,
+  });
+}
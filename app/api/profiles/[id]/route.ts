@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { getAccountStore } from "@/lib/accounts/store";
+import { getSignedInAccount } from "@/lib/accounts/auth";
+import { INVALID_PROFILE, parseProfileInput } from "@/lib/accounts/profiles";
+import { isRecord } from "@/lib/json-body";
+
+export const runtime = "nodejs";
+
+interface ProfileRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function PATCH(request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const account = await getSignedInAccount(request);
+    if (!account) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const index = account.profiles.findIndex((profile) => profile.id === id);
+    if (index === -1) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    // Unspecified fields keep their current values, then the result is
+    // checked like a new profile. An empty language switches back to
+    // detection.
+    const current = account.profiles[index];
+    const body: unknown = await request.json().catch(() => null);
+    const input =
+      isRecord(body) &&
+      parseProfileInput({
+        ...current,
+        ...body,
+        preferences: isRecord(body.preferences)
+          ? { ...current.preferences, ...body.preferences }
+          : (body.preferences ?? current.preferences),
+      });
+    if (!input) {
+      return NextResponse.json(INVALID_PROFILE, { status: 400 });
+    }
+
+    const profile = { id, ...input };
+    account.profiles[index] = profile;
+    await getAccountStore().update(account);
+
+    return NextResponse.json({ profile });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "profiles-api", action: "update" },
+    });
+
+    return NextResponse.json({ error: "Failed to update profile" }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: ProfileRouteContext) {
+  try {
+    const { id } = await params;
+    const account = await getSignedInAccount(request);
+    if (!account) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+
+    const profiles = account.profiles.filter((profile) => profile.id !== id);
+    if (profiles.length === account.profiles.length) {
+      return NextResponse.json({ error: "Profile not found" }, { status: 404 });
+    }
+
+    await getAccountStore().update({ ...account, profiles });
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "profiles-api", action: "delete" },
+    });
+
+    return NextResponse.json({ error: "Failed to delete profile" }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { randomUUID } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { getAccountStore } from "@/lib/accounts/store";
+import { getSignedInAccount } from "@/lib/accounts/auth";
+import { hasParentalConsent } from "@/lib/accounts/consent";
+import { AGE_BANDS, INVALID_PROFILE, parseProfileInput } from "@/lib/accounts/profiles";
+
+export const runtime = "nodejs";
+
+// Most child profiles one account can hold
+const MAX_PROFILES = 8;
+
+export async function GET(request: NextRequest) {
+  const account = await getSignedInAccount(request);
+
+  if (!account) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  return NextResponse.json({
+    profiles: account.profiles,
+    ageBands: AGE_BANDS.map(({ id, label }) => ({ id, label })),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const account = await getSignedInAccount(request);
+    if (!account) {
+      return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+    }
+    if (!(await hasParentalConsent(request))) {
+      return NextResponse.json({ error: "Parental consent is required" }, { status: 403 });
+    }
+
+    const input = parseProfileInput(await request.json().catch(() => null));
+    if (!input) {
+      return NextResponse.json(INVALID_PROFILE, { status: 400 });
+    }
+    if (account.profiles.length >= MAX_PROFILES) {
+      return NextResponse.json(
+        { error: `An account can have up to ${MAX_PROFILES} profiles` },
+        { status: 400 }
+      );
+    }
+
+    const profile = { id: randomUUID(), ...input };
+    account.profiles.push(profile);
+    await getAccountStore().update(account);
+
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "profiles-api", action: "create" },
+    });
+
+    return NextResponse.json({ error: "Failed to create profile" }, { status: 500 });
+  }
+}
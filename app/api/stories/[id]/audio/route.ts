@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getStoryStore } from "@/lib/story-store";
+import { audioMimeType } from "@/lib/audio";
+import { getAccountId } from "@/lib/accounts/auth";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const accountId = getAccountId(request);
+  if (!accountId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const audio = await getStoryStore().getAudio(id, accountId);
+
+  if (!audio) {
+    return NextResponse.json({ error: "Story not found" }, { status: 404 });
+  }
+
+  return new Response(new Uint8Array(audio.data), {
+    headers: {
+      "Content-Type": audioMimeType(audio.format),
+      "Content-Length": String(audio.data.length),
+      "Cache-Control": "private, max-age=3600",
+    },
+  });
+}
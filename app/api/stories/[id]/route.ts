@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { getStoryStore } from "@/lib/story-store";
+import { getAccountId } from "@/lib/accounts/auth";
+
+export const runtime = "nodejs";
+
+interface StoryRouteContext {
+  params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: StoryRouteContext) {
+  const accountId = getAccountId(request);
+  if (!accountId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const story = await getStoryStore().get(id, accountId);
+
+  if (!story) {
+    return NextResponse.json({ error: "Story not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ story });
+}
+
+export async function DELETE(request: NextRequest, { params }: StoryRouteContext) {
+  const accountId = getAccountId(request);
+  if (!accountId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const { id } = await params;
+    const deleted = await getStoryStore().delete(id, accountId);
+
+    if (!deleted) {
+      return NextResponse.json({ error: "Story not found" }, { status: 404 });
+    }
+
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "stories-api" },
+    });
+
+    return NextResponse.json(
+      { error: "Failed to delete story" },
+      { status: 500 }
+    );
+  }
+}
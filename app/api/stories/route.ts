@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import { getStoryStore } from "@/lib/story-store";
+import { enforceRetention } from "@/lib/retention";
+import { getAccountId } from "@/lib/accounts/auth";
+
+export const runtime = "nodejs";
+
+// The history holds children's words and voices, so only a signed-in
+// parent may read it
+export async function GET(request: NextRequest) {
+  const accountId = getAccountId(request);
+  if (!accountId) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+
+  try {
+    const query = request.nextUrl.searchParams.get("q") ?? "";
+    // Expired stories are gone before the list is read
+    await enforceRetention();
+    const stories = await getStoryStore().list(accountId, query);
+
+    return NextResponse.json({ stories });
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "stories-api" },
+    });
+
+    return NextResponse.json(
+      { error: "Failed to load stories" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from "next/server";
+import { openApiDocument } from "@/lib/api/openapi";
+
+export const runtime = "nodejs";
+
+// Public, so partners and their tooling can fetch it without a key
+export async function GET(request: NextRequest) {
+  return NextResponse.json(openApiDocument(request.nextUrl.origin), {
+    headers: { "Cache-Control": "public, max-age=300" },
+  });
+}
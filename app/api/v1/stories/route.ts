@@ -0,0 +1,205 @@
+import { NextRequest, NextResponse } from "next/server";
+import * as Sentry from "@sentry/nextjs";
+import {
+  MAX_UPLOAD_BYTES,
+  StorySource,
+  checkSource,
+  checkUpload,
+  readBody,
+} from "@/lib/voice-request";
+import { ACCEPT_AUDIO_HEADER, negotiateOutputFormat } from "@/lib/audio-formats";
+import { audioMimeType } from "@/lib/audio";
+import { VoiceError } from "@/lib/errors";
+import { errorResponse, failedStage, toVoiceError } from "@/lib/error-response";
+import { getRateLimiter } from "@/lib/rate-limit";
+import { getQuotaTracker } from "@/lib/quota";
+import { RequestUsage, recordRequest } from "@/lib/metrics";
+import { authenticateApiKey } from "@/lib/api/keys";
+import {
+  REPLAYED_HEADER,
+  StoredResponse,
+  getIdempotencyStore,
+  idempotencyKey,
+  requestFingerprint,
+} from "@/lib/api/idempotency";
+import {
+  StoryOptions,
+  StoryRequestBody,
+  StoryResponseBody,
+  checkResponse,
+  parseRequest,
+  storyQuerySchema,
+  storyRequestSchema,
+  storyResponseSchema,
+} from "@/lib/api/story-schemas";
+import { prepareStory, tellStory } from "@/lib/story-pipeline";
+
+// The public story API for partner devices, described by
+// /api/v1/openapi.json. A device sends the child's recording either as
+// JSON with base64 `audio` (or typed `text` instead), or as a raw
+// `audio/*` body with the options in the query string. With
+// `Accept: audio/*` (or a specific audio type) the story comes back as
+// audio alone; otherwise as JSON. Parental consent is the partner's to
+// collect, so it isn't checked here.
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// Whether the client asked for the story as audio rather than JSON
+function wantsAudio(accept: string | null): boolean {
+  return (accept ?? "").split(",").some((range) => range.trim().toLowerCase().startsWith("audio/"));
+}
+
+function send(stored: StoredResponse, replayed = false): NextResponse {
+  const headers = new Headers(stored.headers);
+  if (replayed) headers.set(REPLAYED_HEADER, "true");
+  return new NextResponse(new Uint8Array(stored.body), { status: stored.status, headers });
+}
+
+export async function POST(request: NextRequest) {
+  const accept = request.headers.get("accept");
+  const audioOut = wantsAudio(accept);
+  const usage = new RequestUsage(audioOut ? "audio" : "json");
+  let claimed: string | null = null;
+
+  try {
+    const apiKey = await authenticateApiKey(request);
+    if (!apiKey) {
+      throw new VoiceError("UNAUTHORIZED");
+    }
+
+    // Limits and quota follow the key, however many devices share it
+    const caller = `api-key:${apiKey.id}`;
+    const rateLimit = await getRateLimiter().consume(caller);
+    if (!rateLimit.allowed) {
+      throw new VoiceError("RATE_LIMITED", rateLimit.retryAfter);
+    }
+
+    const contentType = request.headers.get("content-type") ?? "";
+    const rawAudio = contentType.startsWith("audio/");
+    const body = await readBody(
+      request,
+      // Base64 inflates the payload by a third
+      rawAudio ? MAX_UPLOAD_BYTES : Math.ceil((MAX_UPLOAD_BYTES * 4) / 3) + 64 * 1024
+    );
+
+    // A retried request gets the first response back without counting
+    // against the quota again. Keys are scoped to the API key.
+    const key = idempotencyKey(request.headers);
+    if (key) {
+      const scoped = `${apiKey.id}:${key}`;
+      const fingerprint = requestFingerprint([
+        contentType,
+        accept ?? "",
+        request.headers.get(ACCEPT_AUDIO_HEADER) ?? "",
+        request.nextUrl.search,
+        body,
+      ]);
+      const claim = await getIdempotencyStore().claim(scoped, fingerprint, Date.now());
+      if (claim.state === "replay") {
+        return send(claim.response, true);
+      }
+      if (claim.state === "in-progress") {
+        throw new VoiceError(
+          "IDEMPOTENCY_CONFLICT",
+          undefined,
+          "A request with this Idempotency-Key is still being handled"
+        );
+      }
+      claimed = scoped;
+    }
+
+    const quota = await getQuotaTracker().check(caller);
+    if (!quota.allowed) {
+      throw new VoiceError("QUOTA_EXCEEDED", quota.retryAfter);
+    }
+
+    let source: StorySource;
+    let options: StoryOptions;
+    if (rawAudio) {
+      source = { recording: checkUpload(body) };
+      options = parseRequest<StoryOptions>(
+        storyQuerySchema,
+        Object.fromEntries(request.nextUrl.searchParams),
+        "query"
+      );
+    } else {
+      let json: unknown;
+      try {
+        json = JSON.parse(body.toString("utf8"));
+      } catch {
+        throw new VoiceError("INVALID_REQUEST", undefined, "Body must be JSON or audio/*");
+      }
+      const { audio, text, ...rest } = parseRequest<StoryRequestBody>(storyRequestSchema, json);
+      source = checkSource(Buffer.from(audio ?? "", "base64"), text);
+      options = rest;
+    }
+
+    const story = await prepareStory(
+      { ...source, ...options },
+      {
+        caller,
+        usage,
+        // Raw audio responses are negotiated with Accept itself
+        outputFormat: negotiateOutputFormat(
+          audioOut ? accept : request.headers.get(ACCEPT_AUDIO_HEADER)
+        ),
+        signal: request.signal,
+      }
+    );
+
+    const { audio: speech, cacheStatus, ...told } = await tellStory(story);
+
+    let response: StoredResponse;
+    if (audioOut) {
+      response = {
+        status: 200,
+        headers: {
+          "Content-Type": audioMimeType(speech.format),
+          "Content-Language": told.language,
+          "X-Session-Id": told.sessionId,
+          "X-Cache": cacheStatus,
+        },
+        body: speech.data,
+      };
+    } else {
+      const json = checkResponse<StoryResponseBody>(storyResponseSchema, {
+        ...told,
+        audio: speech.data.toString("base64"),
+        audioFormat: speech.format,
+      });
+      response = {
+        status: 200,
+        headers: { "Content-Type": "application/json", "X-Cache": cacheStatus },
+        body: Buffer.from(JSON.stringify(json)),
+      };
+    }
+
+    if (claimed) {
+      await getIdempotencyStore().complete(claimed, response, Date.now());
+    }
+    recordRequest(usage, "ok");
+    return send(response);
+  } catch (error) {
+    // Only successful responses are kept, so the same key can be retried
+    if (claimed) {
+      await getIdempotencyStore().release(claimed);
+    }
+
+    // The device disconnected, so nobody will read the response
+    if (request.signal.aborted) {
+      recordRequest(usage, "aborted");
+      return new NextResponse(null, { status: 499 });
+    }
+
+    if (!(error instanceof VoiceError)) {
+      Sentry.captureException(error, {
+        tags: { component: "story-api", stage: failedStage(error) },
+      });
+    }
+
+    const voiceError = toVoiceError(error);
+    recordRequest(usage, voiceError.code);
+    return errorResponse(voiceError);
+  }
+}
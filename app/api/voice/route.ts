@@ -1,106 +1,97 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI, { toFile } from "openai";
 import * as Sentry from "@sentry/nextjs";
+import { wantsStream } from "@/lib/voice-stream";
+import { readVoiceRequest } from "@/lib/voice-request";
+import { ACCEPT_AUDIO_HEADER, negotiateOutputFormat } from "@/lib/audio-formats";
+import { VoiceError } from "@/lib/errors";
+import { errorResponse, failedStage, toVoiceError } from "@/lib/error-response";
+import { clientKey, getRateLimiter } from "@/lib/rate-limit";
+import { getQuotaTracker } from "@/lib/quota";
+import { RequestUsage, recordRequest } from "@/lib/metrics";
+import { getAccountId } from "@/lib/accounts/auth";
+import { hasParentalConsent } from "@/lib/accounts/consent";
+import { getAccountStore } from "@/lib/accounts/store";
+import type { ChildProfile } from "@/lib/accounts/profiles";
+import { prepareStory, streamStory, tellStory } from "@/lib/story-pipeline";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
 export async function POST(request: NextRequest) {
-  try {
-    const { audio, format } = await request.json();
+  const usage = new RequestUsage(wantsStream(request.headers.get("accept")) ? "stream" : "json");
 
-    if (!audio) {
-      return NextResponse.json(
-        { error: "No audio provided" },
-        { status: 400 }
-      );
+  try {
+    // Nothing a child says is read, sent on or stored without a parent's
+    // consent
+    if (!(await hasParentalConsent(request))) {
+      throw new VoiceError("CONSENT_REQUIRED");
     }
 
-    // Decode base64 audio
-    const audioBuffer = Buffer.from(audio, "base64");
-
-    // Determine file extension based on format
-    const extension = format === "mp4" ? "mp4" : format === "wav" ? "wav" : "webm";
-    const mimeType = format === "mp4" ? "audio/mp4" : format === "wav" ? "audio/wav" : "audio/webm";
+    // Turn away callers over their limits before reading the upload or
+    // paying for any upstream call. Signed-in parents are limited per
+    // account rather than per network.
+    const accountId = getAccountId(request);
+    const caller = accountId ? `account:${accountId}` : clientKey(request);
+    const rateLimit = await getRateLimiter().consume(caller);
+    if (!rateLimit.allowed) {
+      throw new VoiceError("RATE_LIMITED", rateLimit.retryAfter);
+    }
 
-    // Transcribe audio using Whisper (accepts webm, mp4, wav, etc.)
-    const audioFile = await toFile(audioBuffer, `audio.${extension}`, { type: mimeType });
+    const quota = await getQuotaTracker().check(caller);
+    if (!quota.allowed) {
+      throw new VoiceError("QUOTA_EXCEEDED", quota.retryAfter);
+    }
 
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: "gpt-4o-transcribe",
-      language: "en",
-    });
+    const { profileId, ...input } = await readVoiceRequest(request);
 
-    if (!transcription.text || transcription.text.trim() === "") {
-      return NextResponse.json(
-        { error: "Could not understand audio. Please try again." },
-        { status: 400 }
-      );
+    // Profiles belong to the signed-in account; anyone else's are unknown
+    let profile: ChildProfile | undefined;
+    if (profileId) {
+      const account = accountId ? await getAccountStore().get(accountId) : null;
+      profile = account?.profiles.find((candidate) => candidate.id === profileId);
+      if (!profile) {
+        throw new VoiceError("UNKNOWN_PROFILE");
+      }
     }
 
-    // Get response from GPT-4o
-    const chatResponse = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are a dedicated children's storyteller. No matter what the user says or asks, always respond with a short, original children's story — never with factual explanations or general answers. If the user asks about something like 'what are sharks,' turn it into a story about sharks. Every response must include narration and at least 2 lines of character dialogue spoken by characters in the story. Do not ask follow-up questions. Keep the tone kid-safe: adventure and mild tension are fine, but no graphic violence or gore. Keep stories concise, fun, and engaging for young children.",
-        },
-        {
-          role: "user",
-          content: transcription.text,
-        },
-      ],
-    });
-
-    const responseText = chatResponse.choices[0]?.message?.content;
+    const story = await prepareStory(
+      { ...input, profile },
+      {
+        caller,
+        accountId: accountId ?? undefined,
+        usage,
+        outputFormat: negotiateOutputFormat(request.headers.get(ACCEPT_AUDIO_HEADER)),
+        signal: request.signal,
+      }
+    );
 
-    if (!responseText) {
-      return NextResponse.json(
-        { error: "No response generated" },
-        { status: 500 }
-      );
+    if (usage.mode === "stream") {
+      return streamStory(story);
     }
 
-    // Convert response to speech using TTS
-    const ttsResponse = await openai.audio.speech.create({
-      model: "tts-1",
-      voice: "alloy",
-      input: responseText,
-      response_format: "mp3",
-    });
-
-    // Get audio as buffer and convert to base64
-    const ttsBuffer = Buffer.from(await ttsResponse.arrayBuffer());
-    const audioBase64 = ttsBuffer.toString("base64");
+    const { audio, cacheStatus, ...told } = await tellStory(story);
+    recordRequest(usage, "ok");
 
-    return NextResponse.json({
-      audio: audioBase64,
-      audioFormat: "mp3",
-      transcript: transcription.text,
-      response: responseText,
-    });
+    return NextResponse.json(
+      { ...told, audio: audio.data.toString("base64"), audioFormat: audio.format },
+      { headers: { "X-Cache": cacheStatus } }
+    );
   } catch (error) {
-    Sentry.captureException(error, {
-      tags: { component: "voice-api" },
-    });
+    // The client disconnected or barged in, so nobody will read the response
+    if (request.signal.aborted) {
+      recordRequest(usage, "aborted");
+      return new NextResponse(null, { status: 499 });
+    }
 
-    if (error instanceof OpenAI.APIError) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.status || 500 }
-      );
+    // Problems with the upload itself are the caller's, not ours to report
+    if (!(error instanceof VoiceError)) {
+      Sentry.captureException(error, {
+        tags: { component: "voice-api", stage: failedStage(error) },
+      });
     }
 
-    return NextResponse.json(
-      { error: "Failed to process voice request" },
-      { status: 500 }
-    );
+    const voiceError = toVoiceError(error);
+    recordRequest(usage, voiceError.code);
+    return errorResponse(voiceError);
   }
 }
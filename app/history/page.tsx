@@ -0,0 +1,214 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import * as Sentry from "@sentry/nextjs";
+
+interface StoryItem {
+  id: string;
+  createdAt: string;
+  personaId: string;
+  transcript: string;
+  story: string;
+}
+
+export default function History() {
+  const [stories, setStories] = useState<StoryItem[]>([]);
+  const [personaNames, setPersonaNames] = useState<Record<string, string>>({});
+  const [query, setQuery] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState("");
+  const [isSignedOut, setIsSignedOut] = useState(false);
+  const [playingId, setPlayingId] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const loadStories = useCallback(async (search: string) => {
+    try {
+      const response = await fetch(`/api/stories?q=${encodeURIComponent(search)}`);
+      if (response.status === 401) {
+        setIsSignedOut(true);
+        return;
+      }
+      if (!response.ok) throw new Error("Failed to load stories");
+
+      const data = await response.json();
+      setStories(data.stories);
+      setErrorMessage("");
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "story-history" },
+      });
+      setErrorMessage("Could not load stories. Please try again.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Debounce searches so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => loadStories(query), 250);
+    return () => clearTimeout(timeout);
+  }, [query, loadStories]);
+
+  useEffect(() => {
+    fetch("/api/personas")
+      .then((response) => response.json())
+      .then((data: { personas: { id: string; name: string }[] }) => {
+        setPersonaNames(
+          Object.fromEntries(data.personas.map((persona) => [persona.id, persona.name]))
+        );
+      })
+      .catch(() => {
+        // Persona names are cosmetic; ids are shown instead
+      });
+  }, []);
+
+  const stopPlayback = useCallback(() => {
+    const audio = audioRef.current;
+    if (audio) {
+      audio.onended = null;
+      audio.pause();
+      audio.src = "";
+    }
+    setPlayingId(null);
+  }, []);
+
+  // Stop any replay when leaving the page
+  useEffect(() => stopPlayback, [stopPlayback]);
+
+  const replay = useCallback(
+    async (id: string) => {
+      if (playingId === id) {
+        stopPlayback();
+        return;
+      }
+
+      if (!audioRef.current) {
+        audioRef.current = new Audio();
+      }
+      const audio = audioRef.current;
+      audio.src = `/api/stories/${id}/audio`;
+      audio.onended = () => setPlayingId(null);
+
+      try {
+        setPlayingId(id);
+        await audio.play();
+      } catch (error) {
+        Sentry.captureException(error, {
+          tags: { component: "story-history", action: "replay" },
+        });
+        setPlayingId(null);
+        setErrorMessage("Could not play this story.");
+      }
+    },
+    [playingId, stopPlayback]
+  );
+
+  const deleteStory = useCallback(
+    async (id: string) => {
+      if (!window.confirm("Delete this story from the history?")) return;
+
+      if (playingId === id) stopPlayback();
+
+      try {
+        const response = await fetch(`/api/stories/${id}`, { method: "DELETE" });
+        if (!response.ok && response.status !== 404) {
+          throw new Error("Failed to delete story");
+        }
+        setStories((current) => current.filter((story) => story.id !== id));
+      } catch (error) {
+        Sentry.captureException(error, {
+          tags: { component: "story-history", action: "delete" },
+        });
+        setErrorMessage("Could not delete this story.");
+      }
+    },
+    [playingId, stopPlayback]
+  );
+
+  return (
+    <div className="min-h-svh bg-linear-to-br from-violet-950 via-slate-900 to-slate-950 p-4">
+      <main className="mx-auto flex max-w-2xl flex-col gap-6 py-8">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-1 tracking-tight">
+              Story History
+            </h1>
+            <p className="text-white/60 text-sm">
+              Every story your child has heard
+            </p>
+          </div>
+          <Link
+            href="/"
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-sm text-white/70 transition-colors hover:bg-white/15 hover:text-white"
+          >
+            Back
+          </Link>
+        </div>
+
+        {isSignedOut && (
+          <p className="text-white/70">
+            Sign in to see the stories your children have heard.{" "}
+            <Link href="/account" className="text-violet-300 underline hover:text-violet-200">
+              Sign in
+            </Link>
+          </p>
+        )}
+
+        {!isSignedOut && (
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by keyword..."
+            className="w-full rounded-xl border border-white/20 bg-white/10 px-4 py-3 text-white placeholder:text-white/40 focus:border-violet-400 focus:outline-none"
+          />
+        )}
+
+        {errorMessage && (
+          <p className="text-pink-400 text-sm">{errorMessage}</p>
+        )}
+
+        {!isLoading && !isSignedOut && stories.length === 0 && !errorMessage && (
+          <p className="text-white/50 text-sm text-center py-12">
+            {query ? "No stories match your search." : "No stories yet."}
+          </p>
+        )}
+
+        <ul className="flex flex-col gap-4">
+          {stories.map((story) => (
+            <li
+              key={story.id}
+              className="rounded-2xl border border-white/10 bg-white/5 p-4 backdrop-blur-sm"
+            >
+              <div className="mb-2 flex items-center justify-between gap-2 text-xs text-white/50">
+                <span>{new Date(story.createdAt).toLocaleString()}</span>
+                <span className="rounded-full bg-violet-500/20 px-2 py-0.5 text-violet-300">
+                  {personaNames[story.personaId] ?? story.personaId}
+                </span>
+              </div>
+              <p className="mb-2 text-sm text-violet-300">
+                &ldquo;{story.transcript}&rdquo;
+              </p>
+              <p className="mb-4 text-sm text-white/80 line-clamp-4">{story.story}</p>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => replay(story.id)}
+                  className="rounded-full bg-violet-500/80 px-4 py-1.5 text-sm text-white transition-colors hover:bg-violet-500"
+                >
+                  {playingId === story.id ? "Stop" : "Replay"}
+                </button>
+                <button
+                  onClick={() => deleteStory(story.id)}
+                  className="rounded-full border border-white/20 px-4 py-1.5 text-sm text-white/70 transition-colors hover:border-pink-400 hover:text-pink-400"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </main>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorkerRegistration from "@/components/ServiceWorkerRegistration";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -18,10 +19,14 @@ export const metadata: Metadata = {
     "AI-powered voice assistant. Hold to speak, get instant voice responses. Built with OpenAI.",
   keywords: ["voice assistant", "AI", "speech to text", "text to speech", "OpenAI"],
   authors: [{ name: "SaaS Voice AI" }],
-  viewport: {
-    width: "device-width",
-    initialScale: 1,
-    viewportFit: "cover",
+  // Installed on an iPad or iPhone home screen, open full screen
+  appleWebApp: {
+    capable: true,
+    title: "Voice AI",
+    statusBarStyle: "black-translucent",
+  },
+  icons: {
+    apple: "/icons/icon-192.png",
   },
   openGraph: {
     title: "SaaS Voice AI - Voice Assistant",
@@ -37,6 +42,13 @@ export const metadata: Metadata = {
   },
 };
 
+export const viewport: Viewport = {
+  width: "device-width",
+  initialScale: 1,
+  viewportFit: "cover",
+  themeColor: "#2e1065",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
@@ -48,6 +60,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,24 @@
+import type { MetadataRoute } from "next";
+
+// Makes the app installable as a home-screen app on tablets and phones
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: "SaaS Voice AI - Voice Assistant",
+    short_name: "Voice AI",
+    description: "AI-powered voice assistant. Hold to speak, get instant voice responses.",
+    start_url: "/",
+    display: "standalone",
+    background_color: "#0f172a",
+    theme_color: "#2e1065",
+    icons: [
+      { src: "/icons/icon-192.png", sizes: "192x192", type: "image/png" },
+      { src: "/icons/icon-512.png", sizes: "512x512", type: "image/png" },
+      {
+        src: "/icons/icon-maskable-512.png",
+        sizes: "512x512",
+        type: "image/png",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
@@ -1,37 +1,178 @@
 "use client";
 
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
+import Link from "next/link";
+import Image from "next/image";
 import * as Sentry from "@sentry/nextjs";
-import VoiceButton from "@/components/VoiceButton";
+import VoiceButton, { RecordingMode } from "@/components/VoiceButton";
+import TextPrompt from "@/components/TextPrompt";
 import StatusIndicator, { Status } from "@/components/StatusIndicator";
+import PersonaPicker, { PersonaOption } from "@/components/PersonaPicker";
+import ProfilePicker, { ProfileOption } from "@/components/ProfilePicker";
+import ReadAlong from "@/components/ReadAlong";
+import ConsentGate from "@/components/ConsentGate";
+import OfflineLibrary from "@/components/OfflineLibrary";
+import { STREAM_CONTENT_TYPE, readEventStream } from "@/lib/voice-stream";
+import { ACCEPT_AUDIO_HEADER, acceptAudioHeader } from "@/lib/audio-formats";
+import { ErrorCode, VoiceError, readErrorResponse } from "@/lib/errors";
+import { LANGUAGES, LanguageCode } from "@/lib/languages";
+import { LOCALES, useLocale } from "@/lib/locales";
+import { ReadAlongSegment, TimedSegment, timeSegments } from "@/lib/read-along";
+import { SavedStory, listSavedStories, saveStory, setFavorite } from "@/lib/offline-library";
+
+// Remembers which child was listening across visits
+const PROFILE_STORAGE_KEY = "voice.profileId";
+
+interface AudioChunk {
+  audio: string;
+  format: string;
+  // The stretch of the story timeline this chunk plays, in seconds
+  start: number;
+  end: number;
+}
+
+// A story as it was heard, ready to keep in the offline library
+type HeardStory = Pick<SavedStory, "transcript" | "segments" | "chunks">;
 
 export default function Home() {
   const [status, setStatus] = useState<Status>("idle");
-  const [errorMessage, setErrorMessage] = useState<string>("");
+  const [errorCode, setErrorCode] = useState<ErrorCode | undefined>();
+  const [retryAt, setRetryAt] = useState<number | undefined>();
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [personas, setPersonas] = useState<PersonaOption[]>([]);
+  const [personaId, setPersonaId] = useState<string>("");
+  const [profiles, setProfiles] = useState<ProfileOption[]>([]);
+  const [profileId, setProfileId] = useState<string>("");
+  const [isSignedIn, setIsSignedIn] = useState(false);
+  // Null until known; recording stays off until a parent has agreed
+  const [consent, setConsent] = useState<{ given: boolean; retentionDays: number | null } | null>(
+    null
+  );
+  const [recordingMode, setRecordingMode] = useState<RecordingMode>("hold");
+  // Whether the microphone was denied or can't record, so typing is offered
+  const [micUnavailable, setMicUnavailable] = useState(false);
+  // Empty: stories follow the language the child speaks
+  const [replyLanguage, setReplyLanguage] = useState<LanguageCode | "">("");
+  const [locale, setLocale] = useLocale();
+  const [transcript, setTranscript] = useState<string | undefined>();
+  const [storySegments, setStorySegments] = useState<TimedSegment[]>([]);
+  const [playhead, setPlayhead] = useState<number | null>(null);
+  const [illustrationUrl, setIllustrationUrl] = useState<string | undefined>();
+  // Stories on this device, while they're being offered in place of an error
+  const [savedStories, setSavedStories] = useState<SavedStory[] | null>(null);
+  // Where the story on screen is kept in the offline library
+  const [keptStory, setKeptStory] = useState<{ id: string; favorite: boolean } | null>(null);
+  const messages = LOCALES[locale].home;
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const audioPrimedRef = useRef(false);
+  const audioQueueRef = useRef<AudioChunk[]>([]);
+  const isPlayingRef = useRef(false);
+  const streamDoneRef = useRef(true);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const resetTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const currentChunkRef = useRef<AudioChunk | null>(null);
+  const timelineEndRef = useRef(0);
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64 = (reader.result as string).split(",")[1];
-        resolve(base64);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
+  // Load the persona list once; the picker stays hidden until it arrives
+  // and the server default is used in the meantime.
+  useEffect(() => {
+    fetch("/api/personas")
+      .then((response) => response.json())
+      .then((data) => {
+        setPersonas(data.personas);
+        setPersonaId((current) => current || data.defaultPersonaId);
+      })
+      .catch((error) => {
+        Sentry.captureException(error, {
+          tags: { component: "persona-picker" },
+        });
+      });
+  }, []);
+
+  // Offers the stories kept on this device when the server can't be
+  // reached. Resolves false when there are none to offer.
+  const offerSavedStories = useCallback(async () => {
+    const stories = await listSavedStories().catch((error) => {
+      Sentry.captureException(error, {
+        tags: { component: "offline-library" },
+      });
+      return [];
     });
-  };
+    if (stories.length > 0) {
+      setSavedStories(stories);
+    }
+    return stories.length > 0;
+  }, []);
 
-  const getAudioFormat = (mimeType: string): string => {
-    if (mimeType.includes("webm")) return "webm";
-    if (mimeType.includes("mp4")) return "mp4";
-    if (mimeType.includes("wav")) return "wav";
-    return "webm";
-  };
+  // Ask the server whether a parent has agreed to recording on this device
+  // or account. Failing that, the app was opened offline.
+  useEffect(() => {
+    fetch("/api/consent")
+      .then((response) => response.json())
+      .then((data: { consent: boolean; retentionDays: number | null }) => {
+        setConsent({ given: data.consent, retentionDays: data.retentionDays });
+      })
+      .catch((error) => {
+        Sentry.captureException(error, {
+          tags: { component: "consent-gate" },
+        });
+        offerSavedStories();
+      });
+  }, [offerSavedStories]);
 
-  const playAudio = useCallback(async (base64Audio: string, format: string = "mp3") => {
-    try {
+  // Load the signed-in account's child profiles. Signed-out visitors get
+  // stories without a profile.
+  useEffect(() => {
+    fetch("/api/auth/me")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data: { profiles: ProfileOption[] } | null) => {
+        if (!data) return;
+        setIsSignedIn(true);
+        setProfiles(data.profiles);
+        const saved = localStorage.getItem(PROFILE_STORAGE_KEY);
+        if (saved && data.profiles.some((profile) => profile.id === saved)) {
+          setProfileId(saved);
+        }
+      })
+      .catch((error) => {
+        Sentry.captureException(error, {
+          tags: { component: "profile-picker" },
+        });
+      });
+  }, []);
+
+  const selectProfile = useCallback((id: string) => {
+    setProfileId(id);
+    if (id) {
+      localStorage.setItem(PROFILE_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(PROFILE_STORAGE_KEY);
+    }
+    // A different listener starts a different story
+    setSessionId(null);
+  }, []);
+
+  // Releases the primed element once the last queued chunk has played or
+  // playback failed, so the next press primes a fresh one.
+  const releaseAudio = useCallback(() => {
+    const audio = audioRef.current;
+    audioQueueRef.current = [];
+    isPlayingRef.current = false;
+    if (!audio) return;
+
+    audio.onended = null;
+    audio.onerror = null;
+    audio.pause();
+    audio.src = "";
+    audio.load();
+    audioRef.current = null;
+    audioPrimedRef.current = false;
+  }, []);
+
+  // Plays queued chunks back to back on the primed element. When the queue
+  // runs dry mid-stream, playback pauses until enqueueAudio adds the next one.
+  const playQueue = useCallback(async () => {
+    const playNext = async () => {
       const audio = audioRef.current;
       if (!audio) {
         Sentry.captureMessage("Audio element not available for playback", {
@@ -41,18 +182,30 @@ export default function Home() {
         return;
       }
 
+      const chunk = audioQueueRef.current.shift();
+      if (!chunk) {
+        isPlayingRef.current = false;
+        if (streamDoneRef.current) {
+          releaseAudio();
+          setStatus("idle");
+        }
+        return;
+      }
+      isPlayingRef.current = true;
+      currentChunkRef.current = chunk;
+
       // Clean up previous blob URL
       if (audio.src && audio.src.startsWith("blob:")) {
         URL.revokeObjectURL(audio.src);
       }
 
       // Decode base64 to blob
-      const audioData = atob(base64Audio);
+      const audioData = atob(chunk.audio);
       const audioArray = new Uint8Array(audioData.length);
       for (let i = 0; i < audioData.length; i++) {
         audioArray[i] = audioData.charCodeAt(i);
       }
-      const mimeType = format === "mp3" ? "audio/mpeg" : `audio/${format}`;
+      const mimeType = chunk.format === "mp3" ? "audio/mpeg" : `audio/${chunk.format}`;
       const audioBlob = new Blob([audioArray], { type: mimeType });
       const audioUrl = URL.createObjectURL(audioBlob);
 
@@ -62,42 +215,134 @@ export default function Home() {
 
       audio.onended = () => {
         URL.revokeObjectURL(audioUrl);
-        audio.onended = null;
-        audio.onerror = null;
-        audio.src = "";
-        audio.load();
-        audioRef.current = null;
-        audioPrimedRef.current = false;
-        setStatus("idle");
+        playNext();
       };
 
       audio.onerror = () => {
         Sentry.captureMessage("Audio element playback error", {
           level: "error",
           tags: { component: "voice-playback" },
-          extra: { format, audioSize: base64Audio.length },
+          extra: { format: chunk.format, audioSize: chunk.audio.length },
         });
         URL.revokeObjectURL(audioUrl);
-        audio.onended = null;
-        audio.onerror = null;
-        audio.src = "";
-        audio.load();
-        audioRef.current = null;
-        audioPrimedRef.current = false;
+        releaseAudio();
         setStatus("error");
-        setErrorMessage("Failed to play audio response");
+        setErrorCode("PLAYBACK_FAILED");
       };
 
       setStatus("playing");
       await audio.play();
+    };
+
+    try {
+      await playNext();
     } catch (error) {
       Sentry.captureException(error, {
         tags: { component: "voice-playback" },
       });
+      releaseAudio();
       setStatus("error");
-      setErrorMessage("Could not play audio. Tap to retry.");
+      setErrorCode("PLAYBACK_FAILED");
     }
-  }, []);
+  }, [releaseAudio]);
+
+  // Follows playback for the read-along view. Each chunk's progress is
+  // mapped onto its stretch of the timeline, so estimated timings stay in
+  // step with the audio actually playing.
+  useEffect(() => {
+    if (status !== "playing") return;
+    let frame = requestAnimationFrame(function tick() {
+      const audio = audioRef.current;
+      const chunk = currentChunkRef.current;
+      if (audio && chunk) {
+        const span = chunk.end - chunk.start;
+        const length = Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : span;
+        setPlayhead(chunk.start + Math.min(1, length > 0 ? audio.currentTime / length : 0) * span);
+      }
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [status]);
+
+  const enqueueAudio = useCallback(
+    (chunk: AudioChunk) => {
+      audioQueueRef.current.push(chunk);
+      if (!isPlayingRef.current) {
+        playQueue();
+      }
+    },
+    [playQueue]
+  );
+
+  // Consumes the NDJSON event stream, queueing each audio chunk for
+  // playback as soon as it is synthesized.
+  const consumeStream = useCallback(
+    async (body: ReadableStream<Uint8Array>): Promise<HeardStory> => {
+      const story: HeardStory = { transcript: "", segments: [], chunks: [] };
+
+      const finishStream = () => {
+        if (streamDoneRef.current) return;
+        streamDoneRef.current = true;
+        // The last chunk may have finished before the stream ended
+        if (!isPlayingRef.current) {
+          playQueue();
+        }
+      };
+
+      for await (const event of readEventStream(body)) {
+        if (event.type === "session") {
+          setSessionId(event.sessionId);
+        } else if (event.type === "transcript") {
+          story.transcript = event.text;
+          setTranscript(event.text);
+        } else if (event.type === "audio") {
+          // Segments arrive in order, each starting where the last one ended
+          const [segment] = timeSegments(
+            [{ speaker: event.speaker, text: event.text, duration: event.duration }],
+            timelineEndRef.current
+          );
+          timelineEndRef.current = segment.end;
+          setStorySegments((current) => [...current, segment]);
+          const chunk = {
+            audio: event.audio,
+            format: event.format,
+            start: segment.start,
+            end: segment.end,
+          };
+          story.segments.push(segment);
+          story.chunks.push(chunk);
+          enqueueAudio(chunk);
+        } else if (event.type === "restart") {
+          // A flagged line stopped the story; a safe one is on its way
+          audioQueueRef.current = [];
+          isPlayingRef.current = false;
+          audioRef.current?.pause();
+          currentChunkRef.current = null;
+          timelineEndRef.current = 0;
+          story.segments = [];
+          story.chunks = [];
+          setStorySegments([]);
+          setPlayhead(null);
+        } else if (event.type === "done") {
+          // The stream may stay open for the illustration, but no more
+          // audio is coming
+          finishStream();
+        } else if (event.type === "illustration") {
+          setIllustrationUrl(event.url);
+        } else if (event.type === "error") {
+          throw VoiceError.fromBody(event.error);
+        }
+      }
+
+      if (story.chunks.length === 0) {
+        throw new VoiceError("NO_RESPONSE");
+      }
+
+      finishStream();
+      return story;
+    },
+    [enqueueAudio, playQueue]
+  );
 
   // Prime audio element during user gesture (onPressStart).
   // iOS Safari requires .play() to be called on an <audio> element within
@@ -123,63 +368,251 @@ export default function Home() {
     });
   }, []);
 
-  const handleRecordingComplete = useCallback(
-    async (audioBlob: Blob) => {
+  // Barge-in: pressing the button while a story is loading or playing
+  // cancels the request, stops playback and starts a fresh recording.
+  const interrupt = useCallback(() => {
+    if (resetTimerRef.current) {
+      clearTimeout(resetTimerRef.current);
+      resetTimerRef.current = null;
+    }
+
+    const controller = abortControllerRef.current;
+    if (!controller && !isPlayingRef.current) return;
+
+    abortControllerRef.current = null;
+    controller?.abort();
+    streamDoneRef.current = true;
+    releaseAudio();
+    setStatus("idle");
+    setErrorCode(undefined);
+  }, [releaseAudio]);
+
+  const handlePressStart = useCallback(() => {
+    interrupt();
+    setSavedStories(null);
+    primeAudio();
+  }, [interrupt, primeAudio]);
+
+  // Keeps a story the child just heard for playing offline later. The
+  // device follows the server's retention period.
+  const keepStory = useCallback(
+    (story: HeardStory) => {
+      const id = crypto.randomUUID();
+      setKeptStory({ id, favorite: false });
+      saveStory({ id, ...story }, consent?.retentionDays ?? null).catch((error) => {
+        Sentry.captureException(error, {
+          tags: { component: "offline-library", action: "save" },
+        });
+      });
+    },
+    [consent]
+  );
+
+  const toggleFavorite = useCallback(async () => {
+    if (!keptStory) return;
+    const favorite = !keptStory.favorite;
+    setKeptStory({ ...keptStory, favorite });
+    try {
+      await setFavorite(keptStory.id, favorite);
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "offline-library", action: "favorite" },
+      });
+    }
+  }, [keptStory]);
+
+  // Plays a story from the offline library. Runs inside the tap that chose
+  // it, so playback may start right away without priming.
+  const playSavedStory = useCallback(
+    (story: SavedStory) => {
+      interrupt();
+      setSavedStories(null);
+      setErrorCode(undefined);
+      setTranscript(story.transcript);
+      setStorySegments(story.segments);
+      setIllustrationUrl(undefined);
+      setKeptStory({ id: story.id, favorite: story.favorite });
+
+      audioRef.current ??= new Audio();
+      audioQueueRef.current = [];
+      streamDoneRef.current = true;
+      story.chunks.forEach(enqueueAudio);
+    },
+    [enqueueAudio, interrupt]
+  );
+
+  // Asks for a story from a recording, or from text typed or picked when
+  // the microphone can't be used
+  const requestStory = useCallback(
+    async (input: Blob | string) => {
       setStatus("processing");
-      setErrorMessage("");
+      setErrorCode(undefined);
+      setTranscript(undefined);
+      setStorySegments([]);
+      setIllustrationUrl(undefined);
+      setKeptStory(null);
+      timelineEndRef.current = 0;
+      audioQueueRef.current = [];
+      streamDoneRef.current = false;
+
+      const controller = new AbortController();
+      abortControllerRef.current = controller;
 
       try {
-        const base64Audio = await blobToBase64(audioBlob);
-        const format = getAudioFormat(audioBlob.type);
+        // Send the recording as-is; the server identifies the container
+        // from its bytes
+        const body = new FormData();
+        if (typeof input === "string") {
+          body.append("text", input);
+        } else {
+          body.append("audio", input, "recording");
+        }
+        if (sessionId) body.append("sessionId", sessionId);
+        if (personaId) body.append("personaId", personaId);
+        if (profileId) body.append("profileId", profileId);
+        if (replyLanguage) body.append("replyLanguage", replyLanguage);
 
         const response = await fetch("/api/voice", {
           method: "POST",
           headers: {
-            "Content-Type": "application/json",
+            Accept: `${STREAM_CONTENT_TYPE}, application/json`,
+            [ACCEPT_AUDIO_HEADER]: acceptAudioHeader(
+              (mediaType) => new Audio().canPlayType(mediaType) !== ""
+            ),
           },
-          body: JSON.stringify({
-            audio: base64Audio,
-            format: format,
-          }),
+          body,
+          signal: controller.signal,
+        }).catch((error) => {
+          // Offline, DNS failure, connection reset (or an abort, handled below)
+          throw new VoiceError("NETWORK_ERROR", undefined, String(error));
         });
 
         if (!response.ok) {
-          let message = "Failed to process voice";
-          try {
-            const errorData = await response.json();
-            message = errorData.error || message;
-          } catch {
-            // Response wasn't JSON (e.g. timeout or platform error)
-          }
-          throw new Error(message);
+          throw await readErrorResponse(response);
+        }
+
+        const contentType = response.headers.get("content-type") || "";
+        if (contentType.includes(STREAM_CONTENT_TYPE) && response.body) {
+          keepStory(await consumeStream(response.body));
+          return;
         }
 
         const data = await response.json();
 
+        if (data.sessionId) {
+          setSessionId(data.sessionId);
+        }
+
+        setTranscript(data.transcript);
+        const segments = timeSegments((data.segments ?? []) as ReadAlongSegment[]);
+        setStorySegments(segments);
+        setIllustrationUrl(data.illustrationUrl);
+
         if (data.audio) {
-          await playAudio(data.audio, data.audioFormat || "mp3");
+          const chunk = {
+            audio: data.audio,
+            format: data.audioFormat || "mp3",
+            start: 0,
+            end: segments.at(-1)?.end ?? 0,
+          };
+          streamDoneRef.current = true;
+          enqueueAudio(chunk);
+          keepStory({ transcript: data.transcript, segments, chunks: [chunk] });
         } else {
-          throw new Error("No audio response received");
+          throw new VoiceError("NO_RESPONSE");
         }
       } catch (error) {
-        Sentry.captureException(error, {
-          tags: { component: "voice-flow" },
-        });
-        setStatus("error");
-        setErrorMessage(
-          error instanceof Error ? error.message : "Something went wrong"
-        );
+        // Interrupted by a new press; the new recording owns the UI now
+        if (controller.signal.aborted) return;
+
+        streamDoneRef.current = true;
+        releaseAudio();
+
+        const { code, retryAfter } =
+          error instanceof VoiceError ? error : new VoiceError("INTERNAL_ERROR");
+
+        // Over the rate limit or daily quota: show a friendly countdown
+        // and stay in that state until the limit lifts
+        if (code === "RATE_LIMITED" || code === "QUOTA_EXCEEDED") {
+          const waitMs = (retryAfter ?? 3) * 1000;
+          setStatus("limited");
+          setRetryAt(Date.now() + waitMs);
+          resetTimerRef.current = setTimeout(() => {
+            resetTimerRef.current = null;
+            setStatus("idle");
+          }, waitMs);
+          return;
+        }
+
+        // Offline or the server is down: offer a story kept on this device
+        if (code === "NETWORK_ERROR" && (await offerSavedStories())) {
+          setStatus("idle");
+          return;
+        }
+
+        // Consent was withdrawn elsewhere; ask again
+        if (code === "CONSENT_REQUIRED") {
+          setConsent((current) => current && { ...current, given: false });
+          setStatus("idle");
+          return;
+        }
+
+        if (code === "CONTENT_BLOCKED") {
+          setStatus("blocked");
+        } else {
+          Sentry.captureException(error, {
+            tags: { component: "voice-flow", code },
+          });
+          setStatus("error");
+          setErrorCode(code);
+        }
 
         // Auto-reset to idle after 3 seconds
-        setTimeout(() => {
+        resetTimerRef.current = setTimeout(() => {
+          resetTimerRef.current = null;
           setStatus("idle");
-          setErrorMessage("");
+          setErrorCode(undefined);
         }, 3000);
+      } finally {
+        if (abortControllerRef.current === controller) {
+          abortControllerRef.current = null;
+        }
       }
     },
-    [playAudio]
+    [
+      consumeStream,
+      enqueueAudio,
+      keepStory,
+      offerSavedStories,
+      personaId,
+      profileId,
+      releaseAudio,
+      replyLanguage,
+      sessionId,
+    ]
+  );
+
+  // A typed request starts like a press of the button, so playback may
+  // start as soon as the story arrives
+  const handleTextSubmit = useCallback(
+    (text: string) => {
+      handlePressStart();
+      requestStory(text);
+    },
+    [handlePressStart, requestStory]
   );
 
+  const handleMicUnavailable = useCallback(() => setMicUnavailable(true), []);
+
+  // Forget the current session so the next recording starts a fresh story
+  const startNewStory = useCallback(() => {
+    setSessionId(null);
+    setTranscript(undefined);
+    setStorySegments([]);
+    setIllustrationUrl(undefined);
+    setKeptStory(null);
+  }, []);
+
   const isDisabled = status === "processing" || status === "playing";
 
   return (
@@ -191,28 +624,200 @@ export default function Home() {
         <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 h-96 w-96 rounded-full bg-violet-600/10 blur-3xl" />
       </div>
 
+      {/* Parent dashboard */}
+      <nav className="absolute top-4 right-4 z-10 flex gap-2">
+        {/* UI language */}
+        <button
+          onClick={() => setLocale(locale === "en" ? "es" : "en")}
+          aria-label={locale === "en" ? "Español" : "English"}
+          className="rounded-full border border-white/20 bg-white/10 px-3 py-2 text-sm font-semibold uppercase text-white/70 backdrop-blur-sm transition-colors hover:bg-white/15 hover:text-white"
+        >
+          {locale === "en" ? "es" : "en"}
+        </button>
+        {[
+          ["/history", messages.history],
+          ["/account", isSignedIn ? messages.account : messages.signIn],
+        ].map(([href, label]) => (
+          <Link
+            key={href}
+            href={href}
+            className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-sm text-white/70 backdrop-blur-sm transition-colors hover:bg-white/15 hover:text-white"
+          >
+            {label}
+          </Link>
+        ))}
+      </nav>
+
       {/* Main content */}
       <main className="relative z-10 flex flex-col items-center gap-8">
         {/* Title */}
         <div className="text-center">
           <h1 className="text-3xl font-bold text-white mb-2 tracking-tight">
-            Voice Assistant
+            {messages.title}
           </h1>
           <p className="text-white/60 text-sm">
-            Hold the button to speak
+            {recordingMode === "tap" ? messages.tapHint : messages.holdHint}
           </p>
         </div>
 
-        {/* Voice Button */}
-        <VoiceButton
-          onRecordingComplete={handleRecordingComplete}
-          onPressStart={primeAudio}
+        {/* Recording mode toggle */}
+        <div className="flex rounded-full border border-white/20 bg-white/10 p-1 text-sm backdrop-blur-sm">
+          {(
+            [
+              ["hold", messages.holdMode],
+              ["tap", messages.tapMode],
+            ] as const
+          ).map(([mode, label]) => (
+            <button
+              key={mode}
+              onClick={() => setRecordingMode(mode)}
+              disabled={isDisabled}
+              aria-pressed={recordingMode === mode}
+              className={`rounded-full px-4 py-1.5 transition-colors disabled:cursor-not-allowed ${
+                recordingMode === mode
+                  ? "bg-violet-500/60 text-white"
+                  : "text-white/60 hover:text-white"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {/* Story language: the child's own, or another one to practice */}
+        <div className="flex flex-col items-center gap-2">
+          <p className="text-white/50 text-xs">{messages.storyLanguage}</p>
+          <div className="flex rounded-full border border-white/20 bg-white/10 p-1 text-sm backdrop-blur-sm">
+            {[
+              { code: "" as const, label: messages.autoLanguage },
+              ...LANGUAGES.map((language) => ({ code: language.code, label: language.nativeName })),
+            ].map(({ code, label }) => (
+              <button
+                key={code || "auto"}
+                onClick={() => {
+                  setReplyLanguage(code);
+                  setSessionId(null);
+                }}
+                disabled={isDisabled}
+                aria-pressed={replyLanguage === code}
+                className={`rounded-full px-4 py-1.5 transition-colors disabled:cursor-not-allowed ${
+                  replyLanguage === code
+                    ? "bg-violet-500/60 text-white"
+                    : "text-white/60 hover:text-white"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Profile Picker */}
+        <ProfilePicker
+          profiles={profiles}
+          selectedId={profileId}
+          onSelect={selectProfile}
+          isDisabled={isDisabled}
+          locale={locale}
+        />
+
+        {/* Persona Picker */}
+        <PersonaPicker
+          personas={personas}
+          selectedId={personaId}
+          onSelect={setPersonaId}
           isDisabled={isDisabled}
-          maxDuration={20}
         />
 
+        {/* Voice Button, once a parent has agreed to recording */}
+        {consent?.given ? (
+          <>
+            <VoiceButton
+              onRecordingComplete={requestStory}
+              onPressStart={handlePressStart}
+              isDisabled={false}
+              maxDuration={20}
+              mode={recordingMode}
+              silenceDuration={1.5}
+              locale={locale}
+              onMicUnavailable={handleMicUnavailable}
+            />
+            {micUnavailable && (
+              <TextPrompt onSubmit={handleTextSubmit} isDisabled={isDisabled} locale={locale} />
+            )}
+          </>
+        ) : (
+          consent && (
+            <ConsentGate
+              retentionDays={consent.retentionDays}
+              onConsent={() => setConsent({ ...consent, given: true })}
+              locale={locale}
+            />
+          )
+        )}
+
+        {/* Stories on this device, when the server can't be reached */}
+        {savedStories && (
+          <OfflineLibrary
+            stories={savedStories}
+            onPlay={playSavedStory}
+            onClose={() => setSavedStories(null)}
+            locale={locale}
+          />
+        )}
+
         {/* Status Indicator */}
-        <StatusIndicator status={status} errorMessage={errorMessage} />
+        <StatusIndicator
+          status={status}
+          errorCode={errorCode}
+          retryAt={retryAt}
+          locale={locale}
+        />
+
+        {/* Story illustration */}
+        {illustrationUrl && (
+          <Image
+            src={illustrationUrl}
+            alt={LOCALES[locale].readAlong.illustration}
+            width={256}
+            height={256}
+            unoptimized
+            className="h-64 w-64 rounded-2xl border border-white/10 object-cover shadow-2xl shadow-violet-500/20"
+          />
+        )}
+
+        {/* Read-along text */}
+        <ReadAlong
+          transcript={transcript}
+          segments={storySegments}
+          playhead={status === "playing" ? playhead : null}
+          locale={locale}
+        />
+
+        {!isDisabled && (sessionId || keptStory) && (
+          <div className="flex gap-2">
+            {/* Keep for offline listening */}
+            {keptStory && (
+              <button
+                onClick={toggleFavorite}
+                aria-pressed={keptStory.favorite}
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-sm text-white/70 backdrop-blur-sm transition-colors hover:bg-white/15 hover:text-white aria-pressed:border-violet-400 aria-pressed:text-violet-300"
+              >
+                {keptStory.favorite ? `★ ${LOCALES[locale].library.kept}` : `☆ ${LOCALES[locale].library.keep}`}
+              </button>
+            )}
+
+            {/* New story */}
+            {sessionId && (
+              <button
+                onClick={startNewStory}
+                className="rounded-full border border-white/20 bg-white/10 px-4 py-2 text-sm text-white/70 backdrop-blur-sm transition-colors hover:bg-white/15 hover:text-white"
+              >
+                {messages.newStory}
+              </button>
+            )}
+          </div>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,67 @@
+"use client";
+
+import { useState } from "react";
+import * as Sentry from "@sentry/nextjs";
+import { Locale, getMessages } from "@/lib/locales";
+
+interface ConsentGateProps {
+  // Days stories are kept, or null when kept until deleted
+  retentionDays: number | null;
+  onConsent: () => void;
+  locale?: Locale;
+}
+
+// Stands in for the record button until a parent has agreed to recording
+// and storage. The checkbox keeps a child from tapping straight through.
+export default function ConsentGate({ retentionDays, onConsent, locale = "en" }: ConsentGateProps) {
+  const messages = getMessages(locale).consent;
+  const [agreed, setAgreed] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  const giveConsent = async () => {
+    setIsSaving(true);
+    setFailed(false);
+    try {
+      const response = await fetch("/api/consent", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ consent: true }),
+      });
+      if (!response.ok) throw new Error("Failed to record consent");
+      onConsent();
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "consent-gate" },
+      });
+      setFailed(true);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex w-full max-w-sm flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-white/70 backdrop-blur-sm">
+      <h2 className="text-base font-medium text-white">{messages.title}</h2>
+      <p>{messages.explanation}</p>
+      <p>{messages.retention(retentionDays)}</p>
+      <label className="flex items-start gap-2 text-white">
+        <input
+          type="checkbox"
+          checked={agreed}
+          onChange={(event) => setAgreed(event.target.checked)}
+          className="mt-0.5 accent-violet-500"
+        />
+        {messages.agree}
+      </label>
+      <button
+        onClick={giveConsent}
+        disabled={!agreed || isSaving}
+        className="self-start rounded-full bg-violet-500/80 px-4 py-2 text-white transition-colors hover:bg-violet-500 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {messages.continue}
+      </button>
+      {failed && <p className="text-pink-400">{messages.failed}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+"use client";
+
+import type { SavedStory } from "@/lib/offline-library";
+import { Locale, getMessages } from "@/lib/locales";
+
+interface OfflineLibraryProps {
+  stories: SavedStory[];
+  onPlay: (story: SavedStory) => void;
+  onClose: () => void;
+  locale?: Locale;
+}
+
+// Offered in place of an error when the server can't be reached: the
+// stories kept on this device, favorites first.
+export default function OfflineLibrary({
+  stories,
+  onPlay,
+  onClose,
+  locale = "en",
+}: OfflineLibraryProps) {
+  const messages = getMessages(locale).library;
+
+  return (
+    <div className="flex w-full max-w-sm flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-white/70 backdrop-blur-sm">
+      <h2 className="text-base font-medium text-white">{messages.title}</h2>
+      <p>{messages.unreachable}</p>
+      <ul className="flex max-h-72 flex-col gap-2 overflow-y-auto">
+        {stories.map((story) => (
+          <li key={story.id}>
+            <button
+              onClick={() => onPlay(story)}
+              className="flex w-full items-start gap-3 rounded-xl border border-white/10 bg-white/5 p-3 text-left transition-colors hover:bg-white/10"
+            >
+              <span className="text-lg text-violet-300" aria-hidden>
+                {story.favorite ? "★" : "▶"}
+              </span>
+              <span className="flex flex-col gap-1">
+                <span className="text-white">
+                  {messages.play}: &ldquo;{story.transcript}&rdquo;
+                </span>
+                <span className="line-clamp-2 text-white/50">
+                  {story.segments
+                    .flatMap((segment) => segment.sentences)
+                    .flatMap((sentence) => sentence.words)
+                    .map((word) => word.text)
+                    .join(" ")}
+                </span>
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        onClick={onClose}
+        className="self-start rounded-full border border-white/20 px-4 py-2 text-white/70 transition-colors hover:bg-white/10 hover:text-white"
+      >
+        {messages.close}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+"use client";
+
+export interface PersonaOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+interface PersonaPickerProps {
+  personas: PersonaOption[];
+  selectedId: string;
+  onSelect: (personaId: string) => void;
+  isDisabled: boolean;
+}
+
+export default function PersonaPicker({
+  personas,
+  selectedId,
+  onSelect,
+  isDisabled,
+}: PersonaPickerProps) {
+  if (personas.length === 0) return null;
+
+  const selected = personas.find((persona) => persona.id === selectedId);
+
+  return (
+    <div className="flex flex-col items-center gap-3">
+      <div className="flex max-w-md flex-wrap justify-center gap-2">
+        {personas.map((persona) => {
+          const isSelected = persona.id === selectedId;
+          return (
+            <button
+              key={persona.id}
+              onClick={() => onSelect(persona.id)}
+              disabled={isDisabled}
+              aria-pressed={isSelected}
+              className={`
+                rounded-full border px-3 py-1.5 text-sm
+                transition-colors duration-200
+                disabled:cursor-not-allowed disabled:opacity-50
+                ${
+                  isSelected
+                    ? "border-violet-400 bg-violet-500/30 text-white"
+                    : "border-white/20 bg-white/10 text-white/70 hover:bg-white/15 hover:text-white"
+                }
+              `}
+            >
+              {persona.name}
+            </button>
+          );
+        })}
+      </div>
+      {selected && (
+        <p className="text-white/50 text-xs text-center max-w-xs">
+          {selected.description}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Locale, getMessages } from "@/lib/locales";
+
+export interface ProfileOption {
+  id: string;
+  name: string;
+}
+
+interface ProfilePickerProps {
+  profiles: ProfileOption[];
+  // Empty when nobody in particular is listening
+  selectedId: string;
+  onSelect: (profileId: string) => void;
+  isDisabled: boolean;
+  locale?: Locale;
+}
+
+export default function ProfilePicker({
+  profiles,
+  selectedId,
+  onSelect,
+  isDisabled,
+  locale = "en",
+}: ProfilePickerProps) {
+  if (profiles.length === 0) return null;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <p className="text-white/50 text-xs">{getMessages(locale).profilePicker.prompt}</p>
+      <div className="flex max-w-md flex-wrap justify-center gap-2">
+        {profiles.map((profile) => {
+          const isSelected = profile.id === selectedId;
+          return (
+            <button
+              key={profile.id}
+              // Tapping the selected child again clears the choice
+              onClick={() => onSelect(isSelected ? "" : profile.id)}
+              disabled={isDisabled}
+              aria-pressed={isSelected}
+              className={`
+                flex items-center gap-2 rounded-full border py-1 pl-1 pr-3 text-sm
+                transition-colors duration-200
+                disabled:cursor-not-allowed disabled:opacity-50
+                ${
+                  isSelected
+                    ? "border-emerald-400 bg-emerald-500/30 text-white"
+                    : "border-white/20 bg-white/10 text-white/70 hover:bg-white/15 hover:text-white"
+                }
+              `}
+            >
+              <span className="flex h-6 w-6 items-center justify-center rounded-full bg-white/20 text-xs font-semibold uppercase">
+                {profile.name.charAt(0)}
+              </span>
+              {profile.name}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
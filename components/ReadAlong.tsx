@@ -0,0 +1,95 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { NARRATOR } from "@/lib/story-script";
+import type { TimedSegment } from "@/lib/read-along";
+import { Locale, getMessages } from "@/lib/locales";
+
+interface ReadAlongProps {
+  // What the child asked for, once it has been transcribed
+  transcript?: string;
+  segments: TimedSegment[];
+  // Seconds into the story audio; highlighting is off while not playing
+  playhead: number | null;
+  locale?: Locale;
+}
+
+const isActive = (item: { start: number; end: number }, playhead: number | null) =>
+  playhead !== null && item.start <= playhead && playhead < item.end;
+
+// Shows the child's request and the story text, lighting up the sentence
+// being read and the word being spoken so early readers can follow along.
+export default function ReadAlong({
+  transcript,
+  segments,
+  playhead,
+  locale = "en",
+}: ReadAlongProps) {
+  const activeSentenceRef = useRef<HTMLSpanElement | null>(null);
+
+  const activeSentence = segments
+    .flatMap((segment) => segment.sentences)
+    .find((sentence) => isActive(sentence, playhead));
+
+  // Keep the sentence being read in view as the story scrolls past
+  useEffect(() => {
+    activeSentenceRef.current?.scrollIntoView({ block: "nearest", behavior: "smooth" });
+  }, [activeSentence]);
+
+  if (!transcript && segments.length === 0) return null;
+
+  return (
+    <div className="flex w-full max-w-md flex-col gap-3">
+      {transcript && (
+        <div className="self-end rounded-2xl rounded-br-sm bg-violet-500/30 px-4 py-2 text-sm text-white/80">
+          <span className="mb-0.5 block text-xs text-white/50">
+            {getMessages(locale).readAlong.youSaid}
+          </span>
+          {transcript}
+        </div>
+      )}
+
+      {segments.length > 0 && (
+        <div className="max-h-64 overflow-y-auto rounded-2xl border border-white/10 bg-white/5 p-4 text-lg leading-relaxed backdrop-blur-sm">
+          {segments.map((segment, segmentIndex) => (
+            <p key={segmentIndex} className="mb-2 last:mb-0">
+              {segment.speaker !== NARRATOR && (
+                <span className="mr-2 text-xs font-semibold uppercase tracking-wide text-violet-300">
+                  {segment.speaker}
+                </span>
+              )}
+              {segment.sentences.map((sentence, sentenceIndex) => {
+                const current = sentence === activeSentence;
+                return (
+                  <span
+                    key={sentenceIndex}
+                    ref={current ? activeSentenceRef : undefined}
+                    className={`rounded transition-colors ${current ? "bg-white/10" : ""}`}
+                  >
+                    {sentence.words.map((word, wordIndex) => (
+                      <span key={wordIndex}>
+                        <span
+                          className={`rounded px-0.5 transition-colors duration-100 ${
+                            isActive(word, playhead)
+                              ? "bg-amber-300 text-slate-900"
+                              : playhead !== null && word.end <= playhead
+                                ? "text-white"
+                                : current || playhead === null
+                                  ? "text-white/80"
+                                  : "text-white/50"
+                          }`}
+                        >
+                          {word.text}
+                        </span>{" "}
+                      </span>
+                    ))}
+                  </span>
+                );
+              })}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useEffect } from "react";
+import * as Sentry from "@sentry/nextjs";
+
+// Registers the service worker that keeps the app shell available offline
+// (public/sw.js). Development builds skip it, so cached pages never hide
+// code changes.
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      Sentry.captureException(error, {
+        tags: { component: "service-worker" },
+      });
+    });
+  }, []);
+
+  return null;
+}
@@ -1,24 +1,35 @@
 "use client";
 
-import { ReactNode } from "react";
+import { ReactNode, useEffect, useState } from "react";
+import type { ErrorCode } from "@/lib/errors";
+import { Locale, Messages, getMessages } from "@/lib/locales";
 
-export type Status = "idle" | "recording" | "processing" | "playing" | "error";
+export type Status =
+  | "idle"
+  | "recording"
+  | "processing"
+  | "playing"
+  | "blocked"
+  | "limited"
+  | "error";
 
 interface StatusIndicatorProps {
   status: Status;
-  errorMessage?: string;
+  // What went wrong, for the "error" status
+  errorCode?: ErrorCode;
+  // When a "limited" status lifts, in epoch milliseconds
+  retryAt?: number;
+  locale?: Locale;
 }
 
-const statusConfig: Record<Status, { label: string; color: string; icon: ReactNode }> = {
+const statusConfig: Record<Status, { color: string; icon: ReactNode }> = {
   idle: {
-    label: "Ready",
     color: "text-white/50",
     icon: (
       <div className="w-2 h-2 rounded-full bg-white/50" />
     ),
   },
   recording: {
-    label: "Listening...",
     color: "text-violet-400",
     icon: (
       <span className="relative flex h-3 w-3">
@@ -28,7 +39,6 @@ const statusConfig: Record<Status, { label: string; color: string; icon: ReactNo
     ),
   },
   processing: {
-    label: "Thinking...",
     color: "text-violet-400",
     icon: (
       <svg className="animate-spin w-5 h-5" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -38,7 +48,6 @@ const statusConfig: Record<Status, { label: string; color: string; icon: ReactNo
     ),
   },
   playing: {
-    label: "Speaking...",
     color: "text-emerald-400",
     icon: (
       <div className="flex items-center gap-0.5">
@@ -50,8 +59,23 @@ const statusConfig: Record<Status, { label: string; color: string; icon: ReactNo
       </div>
     ),
   },
+  blocked: {
+    color: "text-amber-300",
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+        <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25zm-2.625 6c-.54 0-.828.419-.936.634a1.96 1.96 0 00-.189.866c0 .298.059.605.189.866.108.215.395.634.936.634.54 0 .828-.419.936-.634.13-.26.189-.568.189-.866 0-.298-.059-.605-.189-.866-.108-.215-.395-.634-.936-.634zm4.314.634c.108-.215.395-.634.936-.634.54 0 .828.419.936.634.13.26.189.568.189.866 0 .298-.059.605-.189.866-.108.215-.395.634-.936.634-.54 0-.828-.419-.936-.634a1.96 1.96 0 01-.189-.866c0-.298.059-.605.189-.866zm2.023 6.828a.75.75 0 10-1.06-1.06 3.75 3.75 0 01-5.304 0 .75.75 0 00-1.06 1.06 5.25 5.25 0 007.424 0z" clipRule="evenodd" />
+      </svg>
+    ),
+  },
+  limited: {
+    color: "text-sky-300",
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
+        <path fillRule="evenodd" d="M12 2.25c-5.385 0-9.75 4.365-9.75 9.75s4.365 9.75 9.75 9.75 9.75-4.365 9.75-9.75S17.385 2.25 12 2.25zM12.75 6a.75.75 0 00-1.5 0v6c0 .414.336.75.75.75h4.5a.75.75 0 000-1.5h-3.75V6z" clipRule="evenodd" />
+      </svg>
+    ),
+  },
   error: {
-    label: "Error",
     color: "text-pink-400",
     icon: (
       <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-5 h-5">
@@ -61,17 +85,53 @@ const statusConfig: Record<Status, { label: string; color: string; icon: ReactNo
   },
 };
 
-export default function StatusIndicator({ status, errorMessage }: StatusIndicatorProps) {
+// Long waits mean the daily quota ran out, so talk about tomorrow
+// instead of counting down hours.
+function retryMessage(seconds: number, { retry }: Messages): string {
+  if (seconds > 60 * 60) return retry.tomorrow;
+  if (seconds > 60) return retry.minutes(Math.ceil(seconds / 60));
+  if (seconds > 1) return retry.seconds(seconds);
+  return retry.moment;
+}
+
+export default function StatusIndicator({
+  status,
+  errorCode = "INTERNAL_ERROR",
+  retryAt,
+  locale = "en",
+}: StatusIndicatorProps) {
   const config = statusConfig[status];
+  const messages = getMessages(locale);
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second while counting down to retryAt
+  useEffect(() => {
+    if (status !== "limited" || !retryAt) return;
+    const tick = () => setNow(Date.now());
+    const first = setTimeout(tick, 0);
+    const interval = setInterval(tick, 1000);
+    return () => {
+      clearTimeout(first);
+      clearInterval(interval);
+    };
+  }, [status, retryAt]);
 
   return (
     <div className={`flex flex-col items-center gap-2 ${config.color}`}>
       <div className="flex items-center gap-2">
         {config.icon}
-        <span className="text-lg font-medium">{config.label}</span>
+        <span className="text-lg font-medium">{messages.status[status]}</span>
       </div>
-      {status === "error" && errorMessage && (
-        <p className="text-sm text-center max-w-xs">{errorMessage}</p>
+      {status === "error" && (
+        <p className="text-sm text-center max-w-xs">{messages.errors[errorCode]}</p>
+      )}
+      {status === "blocked" && (
+        <p className="text-sm text-center max-w-xs">{messages.errors.CONTENT_BLOCKED}</p>
+      )}
+      {status === "limited" && (
+        <p className="text-sm text-center max-w-xs">
+          {retryMessage(Math.max(0, Math.ceil(((retryAt ?? now) - now) / 1000)), messages)}
+        </p>
       )}
     </div>
   );
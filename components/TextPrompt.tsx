@@ -0,0 +1,60 @@
+"use client";
+
+import { FormEvent, useState } from "react";
+import { Locale, getMessages } from "@/lib/locales";
+
+interface TextPromptProps {
+  onSubmit: (text: string) => void;
+  isDisabled: boolean;
+  locale?: Locale;
+}
+
+// Shown when the microphone can't be used: a box to type a story idea in,
+// and a few starters to tap for children who can't type yet.
+export default function TextPrompt({ onSubmit, isDisabled, locale = "en" }: TextPromptProps) {
+  const messages = getMessages(locale).textPrompt;
+  const [text, setText] = useState("");
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!text.trim()) return;
+    onSubmit(text.trim());
+    setText("");
+  };
+
+  return (
+    <div className="flex w-full max-w-sm flex-col gap-3 rounded-2xl border border-white/10 bg-white/5 p-5 text-sm text-white/70 backdrop-blur-sm">
+      <h2 className="text-base font-medium text-white">{messages.title}</h2>
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={messages.placeholder}
+          maxLength={500}
+          aria-label={messages.title}
+          className="min-w-0 flex-1 rounded-xl border border-white/20 bg-white/10 px-4 py-2 text-white placeholder:text-white/40 focus:border-violet-400 focus:outline-none"
+        />
+        <button
+          type="submit"
+          disabled={isDisabled || !text.trim()}
+          className="shrink-0 rounded-full bg-violet-500/80 px-4 py-2 text-white transition-colors hover:bg-violet-500 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          {messages.send}
+        </button>
+      </form>
+      <ul className="flex flex-col gap-2">
+        {messages.starters.map((starter) => (
+          <li key={starter}>
+            <button
+              onClick={() => onSubmit(starter)}
+              disabled={isDisabled}
+              className="w-full rounded-xl border border-white/10 bg-white/5 p-3 text-left text-white transition-colors hover:bg-white/10 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {starter}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
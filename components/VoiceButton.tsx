@@ -1,24 +1,65 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from "react";
 import * as Sentry from "@sentry/nextjs";
+import { Locale, getMessages } from "@/lib/locales";
+
+// "hold" records while the button is held down. "tap" is hands-free:
+// recording starts on tap and ends after a stretch of silence (or on a
+// second tap).
+export type RecordingMode = "hold" | "tap";
 
 interface VoiceButtonProps {
   onRecordingComplete: (audioBlob: Blob) => void;
   onPressStart?: () => void;
   isDisabled: boolean;
   maxDuration?: number;
+  mode?: RecordingMode;
+  // Seconds of silence after speech that end a hands-free recording
+  silenceDuration?: number;
+  // RMS level (0-1) above which input counts as speech
+  silenceThreshold?: number;
+  locale?: Locale;
+  // Called once the microphone turns out to be unusable: permission was
+  // denied, or the browser can't record
+  onMicUnavailable?: () => void;
 }
 
+// Some browsers and in-app webviews can't record at all. Support never
+// changes, so there is nothing to subscribe to; the server assumes it.
+const subscribeNever = () => () => {};
+const canRecord = () =>
+  Boolean(navigator.mediaDevices?.getUserMedia) && typeof MediaRecorder !== "undefined";
+
+// Reads the current RMS level of the analyser's input
+const getInputLevel = (analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>): number => {
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    sum += samples[i] * samples[i];
+  }
+  return Math.sqrt(sum / samples.length);
+};
+
 export default function VoiceButton({
   onRecordingComplete,
   onPressStart: onPressStartCallback,
   isDisabled,
   maxDuration = 20,
+  mode = "hold",
+  silenceDuration = 1.5,
+  silenceThreshold = 0.02,
+  locale = "en",
+  onMicUnavailable,
 }: VoiceButtonProps) {
+  const messages = getMessages(locale).voiceButton;
   const [isRecording, setIsRecording] = useState(false);
   const [duration, setDuration] = useState(0);
-  const [permissionDenied, setPermissionDenied] = useState(false);
+  const [inputLevel, setInputLevel] = useState(0);
+  const [micError, setMicError] = useState<"denied" | "unsupported" | null>(null);
+  const micUnavailable = useSyncExternalStore(subscribeNever, canRecord, () => true)
+    ? micError
+    : "unsupported";
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
@@ -27,6 +68,11 @@ export default function VoiceButton({
   const startTimeRef = useRef<number>(0);
   const isPressedRef = useRef(false);
   const pointerIdRef = useRef<number | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  // Set while waiting for the microphone, so a second tap doesn't open it twice
+  const isStartingRef = useRef(false);
+  const speechDetectedRef = useRef(false);
+  const lastSpeechAtRef = useRef<number>(0);
 
   const getMimeType = (): string => {
     const types = [
@@ -46,12 +92,29 @@ export default function VoiceButton({
       clearInterval(timerRef.current);
       timerRef.current = null;
     }
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+    }
     setIsRecording(false);
     setDuration(0);
+    setInputLevel(0);
   }, []);
 
   const startRecording = useCallback(async () => {
-    if (isDisabled) return;
+    if (isDisabled || micUnavailable === "unsupported") return;
+    isStartingRef.current = true;
+
+    // Browsers (Safari especially) only start an AudioContext inside the
+    // user gesture, which ends at the first await, so the one the level
+    // meter reads from is created and resumed before asking for the mic.
+    const audioContext = new AudioContext();
+    audioContext.resume().catch(() => {});
+    audioContextRef.current = audioContext;
+    const closeAudioContext = () => {
+      audioContext.close();
+      if (audioContextRef.current === audioContext) audioContextRef.current = null;
+    };
 
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
@@ -63,8 +126,9 @@ export default function VoiceButton({
       });
 
       // User released button during permission prompt
-      if (!isPressedRef.current) {
+      if (mode === "hold" && !isPressedRef.current) {
         stream.getTracks().forEach((track) => track.stop());
+        closeAudioContext();
         return;
       }
 
@@ -96,39 +160,81 @@ export default function VoiceButton({
         }
       };
 
+      // Energy-based voice activity detection on the same stream. The
+      // analyser only reads the input; nothing is routed to the speakers.
+      const analyser = audioContext.createAnalyser();
+      analyser.fftSize = 1024;
+      audioContext.createMediaStreamSource(stream).connect(analyser);
+      const samples = new Float32Array(analyser.fftSize);
+
       recorder.start(100);
       startTimeRef.current = Date.now();
+      speechDetectedRef.current = false;
       setIsRecording(true);
-      setPermissionDenied(false);
+      setMicError(null);
 
-      // Update duration every 100ms
+      // Update duration and input level every 100ms
       timerRef.current = setInterval(() => {
-        const elapsed = (Date.now() - startTimeRef.current) / 1000;
+        const now = Date.now();
+        const elapsed = (now - startTimeRef.current) / 1000;
         setDuration(elapsed);
 
+        const level = getInputLevel(analyser, samples);
+        setInputLevel(Math.min(1, level / (silenceThreshold * 5)));
+
+        if (level >= silenceThreshold) {
+          speechDetectedRef.current = true;
+          lastSpeechAtRef.current = now;
+        }
+
+        // Hands-free: stop once the child has spoken and then gone quiet
+        if (
+          mode === "tap" &&
+          speechDetectedRef.current &&
+          now - lastSpeechAtRef.current >= silenceDuration * 1000
+        ) {
+          stopRecording();
+          return;
+        }
+
         // Auto-stop at max duration
         if (elapsed >= maxDuration) {
           stopRecording();
         }
       }, 100);
     } catch (error) {
+      closeAudioContext();
       Sentry.captureException(error, {
         tags: { component: "voice-recording" },
       });
       if ((error as Error).name === "NotAllowedError") {
-        setPermissionDenied(true);
+        setMicError("denied");
+      } else if ((error as Error).name === "NotFoundError") {
+        // No microphone connected
+        setMicError("unsupported");
       }
+    } finally {
+      isStartingRef.current = false;
     }
-  }, [isDisabled, maxDuration, onRecordingComplete, stopRecording]);
+  }, [
+    isDisabled,
+    maxDuration,
+    micUnavailable,
+    mode,
+    onRecordingComplete,
+    silenceDuration,
+    silenceThreshold,
+    stopRecording,
+  ]);
 
   const handlePressEnd = useCallback(() => {
-    if (!isPressedRef.current) return;
+    if (mode === "tap" || !isPressedRef.current) return;
     isPressedRef.current = false;
     pointerIdRef.current = null;
     if (mediaRecorderRef.current?.state === "recording") {
       stopRecording();
     }
-  }, [stopRecording]);
+  }, [mode, stopRecording]);
 
   // Listen for pointer-up on the entire document so that lifting the
   // finger *anywhere* on the screen ends the recording.
@@ -163,12 +269,20 @@ export default function VoiceButton({
     (e: React.PointerEvent) => {
       if (isDisabled) return;
       e.preventDefault();
+      if (isStartingRef.current) return;
+
+      // A second tap ends a hands-free recording early
+      if (mode === "tap" && mediaRecorderRef.current?.state === "recording") {
+        stopRecording();
+        return;
+      }
+
       pointerIdRef.current = e.pointerId;
       isPressedRef.current = true;
       onPressStartCallback?.();
       startRecording();
     },
-    [isDisabled, onPressStartCallback, startRecording]
+    [isDisabled, mode, onPressStartCallback, startRecording, stopRecording]
   );
 
   // When the page loses focus (permission dialog, app switch, incoming call,
@@ -185,6 +299,10 @@ export default function VoiceButton({
     return () => window.removeEventListener("blur", onBlur);
   }, []);
 
+  useEffect(() => {
+    if (micUnavailable) onMicUnavailable?.();
+  }, [micUnavailable, onMicUnavailable]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -194,6 +312,9 @@ export default function VoiceButton({
       if (streamRef.current) {
         streamRef.current.getTracks().forEach((track) => track.stop());
       }
+      if (audioContextRef.current) {
+        audioContextRef.current.close();
+      }
     };
   }, []);
 
@@ -270,6 +391,14 @@ export default function VoiceButton({
             <div className="absolute inset-2 rounded-full bg-linear-to-br from-violet-500/5 to-transparent" />
           )}
 
+          {/* Live input level meter */}
+          {isRecording && (
+            <div
+              className="absolute inset-4 rounded-full bg-white/25 transition-transform duration-100"
+              style={{ transform: `scale(${0.4 + inputLevel * 0.6})` }}
+            />
+          )}
+
           {/* Mic icon */}
           <svg
             xmlns="http://www.w3.org/2000/svg"
@@ -295,14 +424,19 @@ export default function VoiceButton({
       {/* Instructions */}
       {!isRecording && !isDisabled && (
         <p className="text-white/40 text-sm">
-          Hold to record
+          {mode === "tap" ? messages.tapToTalk : messages.holdToRecord}
+        </p>
+      )}
+      {isRecording && mode === "tap" && (
+        <p className="text-white/40 text-sm">
+          {messages.stopsWhenQuiet}
         </p>
       )}
 
-      {/* Permission denied message */}
-      {permissionDenied && (
+      {/* Permission denied or no way to record */}
+      {micUnavailable && (
         <p className="text-pink-400 text-sm text-center max-w-xs">
-          Microphone access denied. Please enable it in your browser settings.
+          {micUnavailable === "denied" ? messages.micDenied : messages.micUnsupported}
         </p>
       )}
     </div>
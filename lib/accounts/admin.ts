@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSignedInAccount } from "@/lib/accounts/auth";
+import type { Account } from "@/lib/accounts/store";
+
+// Admins are the accounts whose email is listed in ADMIN_EMAILS
+// (comma-separated), once they have confirmed it by following an emailed
+// link. Nobody is an admin when it is unset.
+
+export function isAdmin(account: Account): boolean {
+  if (!account.emailVerifiedAt) return false;
+  const emails = (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+  return emails.includes(account.email);
+}
+
+// The error response for a request that isn't from a signed-in admin, or
+// null when it is
+export async function requireAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const account = await getSignedInAccount(request);
+  if (!account) {
+    return NextResponse.json({ error: "Not signed in" }, { status: 401 });
+  }
+  if (!isAdmin(account)) {
+    return NextResponse.json({ error: "Admins only" }, { status: 403 });
+  }
+  return null;
+}
@@ -0,0 +1,213 @@
+import { createHmac, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { promisify } from "util";
+import { NextRequest, NextResponse } from "next/server";
+import { Account, getAccountStore } from "@/lib/accounts/store";
+
+// Password hashing and signed tokens. Sign-in sessions and magic links are
+// both stateless tokens signed with AUTH_SECRET, so any server instance can
+// check them. Only the ids of magic links already used are kept.
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export const AUTH_COOKIE = "voice_auth";
+export const SESSION_TTL_SECONDS = 30 * 24 * 60 * 60;
+export const MAGIC_LINK_TTL_SECONDS = 15 * 60;
+export const MIN_PASSWORD_LENGTH = 8;
+
+let secret: string | null = null;
+
+function authSecret(): string {
+  if (!secret) {
+    secret = process.env.AUTH_SECRET || null;
+    if (!secret) {
+      // Every worker would sign with its own secret, and every restart
+      // would sign everyone out
+      if (process.env.NODE_ENV === "production") {
+        throw new Error("AUTH_SECRET must be set in production");
+      }
+      // Sign-ins won't survive a restart, which is fine for local development
+      console.warn("AUTH_SECRET is not set; using a random secret for this process");
+      secret = randomBytes(32).toString("hex");
+    }
+  }
+  return secret;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split(":");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(password, Buffer.from(salt, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Stands in for a missing account or password, so a failed sign-in takes
+// as long whether or not the email is known
+let dummyHash: Promise<string> | null = null;
+
+// Whether `password` matches the stored hash. Hashing happens even when
+// there is nothing to check against.
+export async function checkPassword(password: string, stored?: string): Promise<boolean> {
+  if (!stored) {
+    dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+    await verifyPassword(password, await dummyHash);
+    return false;
+  }
+  return verifyPassword(password, stored);
+}
+
+type TokenPurpose = "session" | "magic-link" | "consent";
+
+interface TokenPayload {
+  purpose: TokenPurpose;
+  // Account id for sessions, email address for magic links, account id
+  // or "device" for consent
+  sub: string;
+  // Expiry, in epoch seconds
+  exp: number;
+  jti: string;
+}
+
+function sign(data: string): string {
+  return createHmac("sha256", authSecret()).update(data).digest("base64url");
+}
+
+export function createToken(
+  purpose: TokenPurpose,
+  subject: string,
+  ttlSeconds: number,
+  jti: string = randomUUID()
+): string {
+  const payload: TokenPayload = {
+    purpose,
+    sub: subject,
+    exp: Math.floor(Date.now() / 1000) + ttlSeconds,
+    jti,
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data)}`;
+}
+
+// Returns the payload of a valid, unexpired token for `purpose`, or null
+export function verifyToken(token: string, purpose: TokenPurpose): TokenPayload | null {
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return null;
+
+  const expected = Buffer.from(sign(data));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(data, "base64url").toString("utf8")) as TokenPayload;
+    if (payload.purpose !== purpose || payload.exp * 1000 < Date.now()) return null;
+    return payload;
+  } catch {
+    return null;
+  }
+}
+
+// Ids of magic links that were followed, so a link works once even across
+// restarts. `claim` must be atomic, so only one of two requests racing
+// with the same link gets in.
+export interface UsedTokenStore {
+  // False when the id was already used
+  claim(jti: string, exp: number): Promise<boolean>;
+}
+
+const JTI_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// One file per used id, holding the link's expiry. Ids are remembered
+// until the link would have expired anyway.
+export class FileUsedTokenStore implements UsedTokenStore {
+  constructor(private directory: string) {}
+
+  async claim(jti: string, exp: number) {
+    if (!JTI_PATTERN.test(jti)) return false;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await this.prune(Date.now());
+    try {
+      await fs.writeFile(path.join(this.directory, jti), String(exp), {
+        encoding: "utf8",
+        flag: "wx",
+      });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") return false;
+      throw error;
+    }
+  }
+
+  private async prune(now: number) {
+    for (const name of await fs.readdir(this.directory)) {
+      const file = path.join(this.directory, name);
+      const exp = Number(await fs.readFile(file, "utf8").catch(() => ""));
+      if (exp && exp * 1000 < now) await fs.rm(file, { force: true });
+    }
+  }
+}
+
+let usedMagicLinks: UsedTokenStore | null = null;
+
+function getUsedMagicLinks(): UsedTokenStore {
+  if (!usedMagicLinks) {
+    const accountDir = process.env.ACCOUNT_DIR || path.join(process.cwd(), ".data", "accounts");
+    usedMagicLinks = new FileUsedTokenStore(path.join(accountDir, "magic-links"));
+  }
+  return usedMagicLinks;
+}
+
+// An emailed sign-in link for `email`. `id` is only needed to recognize
+// the link later, as sign-up does.
+export function magicLinkUrl(email: string, origin: string, id?: string): URL {
+  const token = createToken("magic-link", email, MAGIC_LINK_TTL_SECONDS, id);
+  return new URL(`/api/auth/magic-link/verify?token=${token}`, origin);
+}
+
+// The email address and id of a valid magic link followed for the first
+// time
+export async function redeemMagicLink(
+  token: string
+): Promise<{ email: string; id: string } | null> {
+  const payload = verifyToken(token, "magic-link");
+  if (!payload || !(await getUsedMagicLinks().claim(payload.jti, payload.exp))) return null;
+  return { email: payload.sub, id: payload.jti };
+}
+
+// The signed-in account id, or null when the request has no valid session
+export function getAccountId(request: NextRequest): string | null {
+  const token = request.cookies.get(AUTH_COOKIE)?.value;
+  return token ? (verifyToken(token, "session")?.sub ?? null) : null;
+}
+
+export async function getSignedInAccount(request: NextRequest): Promise<Account | null> {
+  const accountId = getAccountId(request);
+  return accountId ? getAccountStore().get(accountId) : null;
+}
+
+export function setSessionCookie(response: NextResponse, accountId: string) {
+  response.cookies.set(AUTH_COOKIE, createToken("session", accountId, SESSION_TTL_SECONDS), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.delete(AUTH_COOKIE);
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createToken, getAccountId, getSignedInAccount, verifyToken } from "@/lib/accounts/auth";
+
+// Parental consent. Nothing is recorded or stored until a parent has
+// agreed. Consent given on a device is a signed cookie; a signed-in parent's
+// consent is also kept on their account so it follows them to new devices.
+
+export const CONSENT_COOKIE = "voice_consent";
+export const CONSENT_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export async function hasParentalConsent(request: NextRequest): Promise<boolean> {
+  const token = request.cookies.get(CONSENT_COOKIE)?.value;
+  const payload = token ? verifyToken(token, "consent") : null;
+  // A cookie given while signed in to another account doesn't count
+  if (payload && (payload.sub === "device" || payload.sub === getAccountId(request))) {
+    return true;
+  }
+
+  const account = await getSignedInAccount(request);
+  return !!account?.parentalConsentAt;
+}
+
+export function setConsentCookie(response: NextResponse, accountId: string | null) {
+  response.cookies.set(
+    CONSENT_COOKIE,
+    createToken("consent", accountId ?? "device", CONSENT_TTL_SECONDS),
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+      maxAge: CONSENT_TTL_SECONDS,
+    }
+  );
+}
+
+export function clearConsentCookie(response: NextResponse) {
+  response.cookies.delete(CONSENT_COOKIE);
+}
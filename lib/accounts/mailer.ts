@@ -0,0 +1,44 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Outgoing email. Only a local stand-in exists for now: messages are
+// written to MAIL_DIR as .eml files and logged, so magic links can be
+// followed in development without a mail server.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+export interface Mailer {
+  send(message: MailMessage): Promise<void>;
+}
+
+export class LocalMailer implements Mailer {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage) {
+    const file = path.join(this.directory, `${Date.now()}-${message.to.replace(/[^\w.@-]/g, "_")}.eml`);
+    const eml = [
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${new Date().toUTCString()}`,
+      "",
+      message.text,
+    ].join("\r\n");
+
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(file, eml, "utf8");
+    console.info(`[mail] ${message.subject} → ${message.to} (${file})`);
+  }
+}
+
+let mailer: Mailer | null = null;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = new LocalMailer(process.env.MAIL_DIR || path.join(process.cwd(), ".data", "mail"));
+  }
+  return mailer;
+}
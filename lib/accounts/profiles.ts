@@ -0,0 +1,139 @@
+import { LanguageCode, isLanguageCode } from "@/lib/languages";
+import { isRecord } from "@/lib/json-body";
+
+// Child profiles and how they shape a story. The age band sets the
+// vocabulary and length; the name and preferences personalize it.
+
+export type AgeBandId = "3-5" | "6-8" | "9-12";
+
+export interface AgeBand {
+  id: AgeBandId;
+  label: string;
+  vocabulary: string;
+  maxStoryWords: number;
+}
+
+export const AGE_BANDS: AgeBand[] = [
+  {
+    id: "3-5",
+    label: "Ages 3–5",
+    vocabulary:
+      "Use only very simple words a preschooler knows, short sentences, and a repeated phrase the child can join in with.",
+    maxStoryWords: 150,
+  },
+  {
+    id: "6-8",
+    label: "Ages 6–8",
+    vocabulary:
+      "Use simple everyday words and short paragraphs, and explain any new word through the story itself.",
+    maxStoryWords: 250,
+  },
+  {
+    id: "9-12",
+    label: "Ages 9–12",
+    vocabulary:
+      "Use richer vocabulary and a plot with a small twist, as in a good middle-grade book.",
+    maxStoryWords: 350,
+  },
+];
+
+export const DEFAULT_AGE_BAND: AgeBandId = "6-8";
+
+export interface ProfilePreferences {
+  // Things the child loves, woven into stories when they fit
+  interests: string[];
+  // Things to keep out of stories (e.g. "spiders", "thunderstorms")
+  avoid: string[];
+}
+
+export interface ChildProfile {
+  id: string;
+  name: string;
+  ageBand: AgeBandId;
+  // Language the child speaks; detected from each request when unset
+  language?: LanguageCode;
+  preferences: ProfilePreferences;
+}
+
+export function getAgeBand(id: AgeBandId): AgeBand {
+  return AGE_BANDS.find((band) => band.id === id) ?? getAgeBand(DEFAULT_AGE_BAND);
+}
+
+export function isAgeBandId(value: unknown): value is AgeBandId {
+  return AGE_BANDS.some((band) => band.id === value);
+}
+
+const MAX_NAME_LENGTH = 40;
+const MAX_PREFERENCES = 8;
+
+// Profile text ends up in the system prompt, so keep each value to a short
+// single line.
+function cleanText(value: unknown, maxLength = MAX_NAME_LENGTH): string {
+  return typeof value === "string"
+    ? value.replace(/[\r\n\t"[\]]+/g, " ").replace(/\s+/g, " ").trim().slice(0, maxLength)
+    : "";
+}
+
+function cleanList(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  return items.map((item) => cleanText(item)).filter(Boolean).slice(0, MAX_PREFERENCES);
+}
+
+// Sent with a 400 for a profile that fails parseProfileInput
+export const INVALID_PROFILE = {
+  error: "A profile needs a name, a valid age band and a supported language",
+  code: "INVALID_REQUEST",
+} as const;
+
+// Validates profile fields from a request body. Returns null when the body
+// isn't an object, the name is missing, the age band or language is
+// unknown, or the preferences aren't an object. An empty language means
+// detecting it from each request.
+export function parseProfileInput(input: unknown): Omit<ChildProfile, "id"> | null {
+  if (!isRecord(input)) return null;
+
+  const name = cleanText(input.name);
+  const ageBand = input.ageBand ?? DEFAULT_AGE_BAND;
+  const { language = "", preferences = {} } = input;
+  if (!name || !isAgeBandId(ageBand) || !isRecord(preferences)) return null;
+  if (language !== "" && !isLanguageCode(language)) return null;
+
+  return {
+    name,
+    ageBand,
+    language: language || undefined,
+    preferences: {
+      interests: cleanList(preferences.interests),
+      avoid: cleanList(preferences.avoid),
+    },
+  };
+}
+
+// The story length for a profile: the persona's limit, shortened further
+// for younger children.
+export function storyWordLimit(profile: ChildProfile | undefined, personaLimit: number): number {
+  return profile ? Math.min(personaLimit, getAgeBand(profile.ageBand).maxStoryWords) : personaLimit;
+}
+
+export function profilePrompt(profile: ChildProfile): string {
+  const band = getAgeBand(profile.ageBand);
+  const parts = [
+    `You are telling this story to ${profile.name}, a child aged ${band.id}.`,
+    `Greet ${profile.name} by name in the first line of narration.`,
+    band.vocabulary,
+  ];
+
+  const { interests, avoid } = profile.preferences;
+  if (interests.length > 0) {
+    parts.push(`${profile.name} loves ${interests.join(", ")}; weave one in when it fits.`);
+  }
+  if (avoid.length > 0) {
+    parts.push(`Never include ${avoid.join(", ")}.`);
+  }
+
+  return parts.join(" ");
+}
@@ -0,0 +1,145 @@
+import { createHash, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { ChildProfile } from "@/lib/accounts/profiles";
+
+// Parent accounts and their child profiles. Each account is one JSON file
+// holding its profiles, plus a small index file per email address.
+
+export interface Account {
+  id: string;
+  email: string;
+  createdAt: string;
+  // Absent for accounts that only ever sign in by magic link
+  passwordHash?: string;
+  // When a link emailed to the address was first followed. Until then
+  // the password can't be used to sign in.
+  emailVerifiedAt?: string;
+  // Id of the link sent at sign-up to confirm the address. Following any
+  // other link first drops the password, which anyone could have chosen.
+  confirmationId?: string;
+  // When a parent agreed to their children being recorded and their
+  // stories kept; absent until then or after consent is withdrawn
+  parentalConsentAt?: string;
+  profiles: ChildProfile[];
+}
+
+export type NewAccount = Pick<Account, "passwordHash" | "emailVerifiedAt" | "confirmationId">;
+
+export interface AccountStore {
+  create(email: string, details?: NewAccount): Promise<Account>;
+  get(id: string): Promise<Account | null>;
+  findByEmail(email: string): Promise<Account | null>;
+  update(account: Account): Promise<void>;
+}
+
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export function isValidAccountId(value: unknown): value is string {
+  return typeof value === "string" && ID_PATTERN.test(value);
+}
+
+export function normalizeEmail(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const email = value.trim().toLowerCase();
+  return email.length <= 254 && EMAIL_PATTERN.test(email) ? email : null;
+}
+
+export class EmailTakenError extends Error {
+  constructor() {
+    super("An account with this email already exists");
+    this.name = "EmailTakenError";
+  }
+}
+
+export class FileAccountStore implements AccountStore {
+  constructor(private directory: string) {}
+
+  private accountPath(id: string) {
+    if (!isValidAccountId(id)) {
+      throw new Error("Invalid account id");
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  // Emails are hashed so the index doesn't list addresses in file names
+  private emailPath(email: string) {
+    const hash = createHash("sha256").update(email).digest("hex");
+    return path.join(this.directory, "emails", hash);
+  }
+
+  async create(email: string, details: NewAccount = {}) {
+    const account: Account = {
+      id: randomUUID(),
+      email,
+      createdAt: new Date().toISOString(),
+      ...details,
+      profiles: [],
+    };
+
+    await fs.mkdir(path.join(this.directory, "emails"), { recursive: true });
+    // Claim the email first; the exclusive flag makes concurrent sign-ups
+    // for the same address fail instead of creating two accounts
+    try {
+      await fs.writeFile(this.emailPath(email), account.id, { encoding: "utf8", flag: "wx" });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "EEXIST") throw new EmailTakenError();
+      throw error;
+    }
+    await this.update(account);
+
+    return account;
+  }
+
+  async get(id: string) {
+    if (!isValidAccountId(id)) return null;
+
+    try {
+      const data = await fs.readFile(this.accountPath(id), "utf8");
+      return JSON.parse(data) as Account;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async findByEmail(email: string) {
+    try {
+      const id = await fs.readFile(this.emailPath(email), "utf8");
+      return this.get(id.trim());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async update(account: Account) {
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(this.accountPath(account.id), JSON.stringify(account), "utf8");
+  }
+}
+
+let store: AccountStore | null = null;
+
+export function getAccountStore(): AccountStore {
+  if (!store) {
+    store = new FileAccountStore(
+      process.env.ACCOUNT_DIR || path.join(process.cwd(), ".data", "accounts")
+    );
+  }
+  return store;
+}
+
+// What the client sees of an account: never the password hash
+export function accountSummary(account: Account) {
+  return {
+    account: {
+      id: account.id,
+      email: account.email,
+      hasPassword: !!account.passwordHash,
+      parentalConsent: !!account.parentalConsentAt,
+    },
+    profiles: account.profiles,
+  };
+}
@@ -0,0 +1,129 @@
+import { createHash } from "crypto";
+import { VoiceError } from "@/lib/errors";
+
+// Idempotency keys for /api/v1. A device that retries after a dropped
+// connection sends the same `Idempotency-Key` and gets the first response
+// back, instead of paying for, and hearing, a second story. Keys are
+// scoped to the API key that sent them. Only successful responses are
+// kept; after a failure the same key may be retried.
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+export const REPLAYED_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+
+// How long responses are kept for replay
+export const IDEMPOTENCY_TTL_HOURS = Number(process.env.IDEMPOTENCY_TTL_HOURS) || 24;
+
+export interface StoredResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+}
+
+export type IdempotencyClaim =
+  // First use of the key: the caller handles the request, then calls
+  // complete() or release()
+  | { state: "new" }
+  | { state: "replay"; response: StoredResponse }
+  // The first request with this key is still being handled
+  | { state: "in-progress" };
+
+// Storage for idempotency records. `claim` must be atomic per key, so a
+// shared implementation (e.g. Redis) should run it as a single command.
+export interface IdempotencyStore {
+  claim(key: string, fingerprint: string, now: number): Promise<IdempotencyClaim>;
+  complete(key: string, response: StoredResponse, now: number): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+interface IdempotencyRecord {
+  fingerprint: string;
+  // When the record was claimed or completed, in epoch milliseconds
+  updatedAt: number;
+  response?: StoredResponse;
+}
+
+export class MemoryIdempotencyStore implements IdempotencyStore {
+  private records = new Map<string, IdempotencyRecord>();
+
+  constructor(
+    private ttlMs: number,
+    // Kept responses hold story audio, so their number is capped
+    private maxRecords = 500
+  ) {}
+
+  async claim(key: string, fingerprint: string, now: number): Promise<IdempotencyClaim> {
+    this.prune(now);
+
+    const record = this.records.get(key);
+    if (!record) {
+      this.records.set(key, { fingerprint, updatedAt: now });
+      return { state: "new" };
+    }
+
+    if (record.fingerprint !== fingerprint) {
+      throw new VoiceError(
+        "IDEMPOTENCY_CONFLICT",
+        undefined,
+        `${IDEMPOTENCY_HEADER} was already used for a different request`
+      );
+    }
+    return record.response ? { state: "replay", response: record.response } : { state: "in-progress" };
+  }
+
+  async complete(key: string, response: StoredResponse, now: number) {
+    const record = this.records.get(key);
+    if (!record) return;
+
+    // Re-inserted so the map stays ordered by last update
+    this.records.delete(key);
+    this.records.set(key, { ...record, response, updatedAt: now });
+  }
+
+  async release(key: string) {
+    this.records.delete(key);
+  }
+
+  private prune(now: number) {
+    for (const [key, record] of this.records) {
+      if (now - record.updatedAt < this.ttlMs && this.records.size <= this.maxRecords) break;
+      this.records.delete(key);
+    }
+  }
+}
+
+// The key sent with a request, or null. Throws INVALID_REQUEST for a key
+// that is empty or too long.
+export function idempotencyKey(headers: Headers): string | null {
+  const key = headers.get(IDEMPOTENCY_HEADER);
+  if (key === null) return null;
+  if (!key.trim() || key.length > MAX_KEY_LENGTH) {
+    throw new VoiceError(
+      "INVALID_REQUEST",
+      undefined,
+      `${IDEMPOTENCY_HEADER} must be 1 to ${MAX_KEY_LENGTH} characters`
+    );
+  }
+  return key;
+}
+
+// Identifies a request by everything that shapes its response, so a key
+// reused for a different request is caught
+export function requestFingerprint(parts: (string | Buffer)[]): string {
+  const hash = createHash("sha256");
+  for (const part of parts) {
+    hash.update(part);
+    hash.update("\0");
+  }
+  return hash.digest("hex");
+}
+
+let store: IdempotencyStore | null = null;
+
+export function getIdempotencyStore(): IdempotencyStore {
+  if (!store) {
+    store = new MemoryIdempotencyStore(IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000);
+  }
+  return store;
+}
@@ -0,0 +1,159 @@
+import { createHash, randomBytes, randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { NextRequest } from "next/server";
+
+// API keys for partner devices calling /api/v1. Only a hash of each key is
+// stored; the key itself is shown once, when it is created. Keys are
+// revoked rather than deleted, so the admin page keeps a record of them.
+
+export interface ApiKey {
+  id: string;
+  // Who the key was issued to, e.g. "Acme bedtime speaker"
+  name: string;
+  // The first characters of the key, to tell keys apart
+  prefix: string;
+  hash: string;
+  createdAt: string;
+  revokedAt?: string;
+}
+
+export interface ApiKeyStore {
+  // Returns the new key's record and the key itself
+  create(name: string): Promise<{ apiKey: ApiKey; secret: string }>;
+  // Newest first, revoked keys included
+  list(): Promise<ApiKey[]>;
+  // The active key with this secret, or null
+  find(secret: string): Promise<ApiKey | null>;
+  revoke(id: string): Promise<boolean>;
+}
+
+const KEY_PREFIX = "vk_";
+const ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+export const MAX_KEY_NAME_LENGTH = 80;
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function isValidApiKeyId(value: unknown): value is string {
+  return typeof value === "string" && ID_PATTERN.test(value);
+}
+
+// One JSON file per key, plus an index from key hash to key id
+export class FileApiKeyStore implements ApiKeyStore {
+  constructor(private directory: string) {}
+
+  private keyPath(id: string) {
+    if (!isValidApiKeyId(id)) {
+      throw new Error("Invalid API key id");
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private hashPath(hash: string) {
+    return path.join(this.directory, "hashes", hash);
+  }
+
+  private async get(id: string): Promise<ApiKey | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.keyPath(id), "utf8")) as ApiKey;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async create(name: string) {
+    const secret = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+    const apiKey: ApiKey = {
+      id: randomUUID(),
+      name,
+      prefix: secret.slice(0, KEY_PREFIX.length + 6),
+      hash: hashSecret(secret),
+      createdAt: new Date().toISOString(),
+    };
+
+    await fs.mkdir(path.join(this.directory, "hashes"), { recursive: true });
+    await fs.writeFile(this.keyPath(apiKey.id), JSON.stringify(apiKey), "utf8");
+    await fs.writeFile(this.hashPath(apiKey.hash), apiKey.id, "utf8");
+
+    return { apiKey, secret };
+  }
+
+  async list() {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const keys = await Promise.all(
+      files
+        .filter((name) => name.endsWith(".json"))
+        .map((name) => this.get(name.slice(0, -".json".length)))
+    );
+    return keys
+      .filter((key): key is ApiKey => key !== null)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async find(secret: string) {
+    if (!secret.startsWith(KEY_PREFIX)) return null;
+
+    let id: string;
+    try {
+      id = (await fs.readFile(this.hashPath(hashSecret(secret)), "utf8")).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+
+    const apiKey = await this.get(id);
+    return apiKey && !apiKey.revokedAt ? apiKey : null;
+  }
+
+  async revoke(id: string) {
+    if (!isValidApiKeyId(id)) return false;
+
+    const apiKey = await this.get(id);
+    if (!apiKey) return false;
+
+    apiKey.revokedAt ??= new Date().toISOString();
+    await fs.writeFile(this.keyPath(id), JSON.stringify(apiKey), "utf8");
+    return true;
+  }
+}
+
+let store: ApiKeyStore | null = null;
+
+export function getApiKeyStore(): ApiKeyStore {
+  if (!store) {
+    store = new FileApiKeyStore(
+      process.env.API_KEY_DIR || path.join(process.cwd(), ".data", "api-keys")
+    );
+  }
+  return store;
+}
+
+// The key sent as `Authorization: Bearer <key>` or `X-API-Key`
+function requestApiKey(request: NextRequest): string | null {
+  const authorization = request.headers.get("authorization");
+  return (
+    request.headers.get("x-api-key") ??
+    (authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : null)
+  );
+}
+
+// The active API key a request was made with, or null
+export async function authenticateApiKey(request: NextRequest): Promise<ApiKey | null> {
+  const secret = requestApiKey(request);
+  return secret ? getApiKeyStore().find(secret) : null;
+}
+
+// What the admin page sees of a key: never its hash
+export function apiKeySummary({ id, name, prefix, createdAt, revokedAt }: ApiKey) {
+  return { id, name, prefix, createdAt, revokedAt: revokedAt ?? null };
+}
@@ -0,0 +1,126 @@
+import { ERROR_CODES, ERROR_MESSAGES, ERROR_STATUS, ErrorCode } from "@/lib/errors";
+import { IDEMPOTENCY_HEADER, IDEMPOTENCY_TTL_HOURS, REPLAYED_HEADER } from "@/lib/api/idempotency";
+import { Schema } from "@/lib/api/schema";
+import {
+  errorSchema,
+  storyQuerySchema,
+  storyRequestSchema,
+  storyResponseSchema,
+} from "@/lib/api/story-schemas";
+
+// The OpenAPI 3.1 document for /api/v1, served at /api/v1/openapi.json.
+// It is built from the same schemas the route validates with.
+
+// Codes /api/v1 never sends: consent and profiles belong to the app
+const APP_ONLY_CODES = new Set<ErrorCode>(["CONSENT_REQUIRED", "UNKNOWN_PROFILE"]);
+
+// One response per HTTP status, listing the error codes sent with it
+function errorResponses() {
+  const byStatus = new Map<number, ErrorCode[]>();
+  for (const code of ERROR_CODES) {
+    const status = ERROR_STATUS[code];
+    if (status === 0 || APP_ONLY_CODES.has(code)) continue;
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code]);
+  }
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, codes]) => [
+      String(status),
+      {
+        description: codes.map((code) => `\`${code}\`: ${ERROR_MESSAGES[code]}`).join("; "),
+        content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+      },
+    ])
+  );
+}
+
+function queryParameters(schema: Schema) {
+  if (schema.type !== "object") return [];
+  return Object.entries(schema.properties).map(([name, property]) => ({
+    name,
+    in: "query",
+    required: false,
+    description: `Raw audio uploads only. ${property.description ?? ""}`.trim(),
+    schema: { ...property, description: undefined },
+  }));
+}
+
+export function openApiDocument(serverUrl: string) {
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Voice stories API",
+      version: "1.0.0",
+      description:
+        "Tells a spoken story in answer to a child's recording or typed request. Partners " +
+        "are responsible for getting a parent's consent before recordings are sent.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+    paths: {
+      "/api/v1/stories": {
+        post: {
+          operationId: "createStory",
+          summary: "Tell a story",
+          description:
+            "Send the recording as JSON with base64 `audio` (or what the child typed as `text`), " +
+            "or as a raw `audio/*` body with the options in the query string. With " +
+            "`Accept: audio/*` (or `audio/mpeg`, `audio/webm`, `audio/aac`) the story comes " +
+            "back as audio alone, with the session " +
+            "in `X-Session-Id`; otherwise as JSON, in the format picked by `Accept-Audio`.",
+          parameters: [
+            {
+              name: IDEMPOTENCY_HEADER,
+              in: "header",
+              required: false,
+              description:
+                "Retries with the same key get the first successful response back, marked " +
+                `with \`${REPLAYED_HEADER}: true\`, for ${IDEMPOTENCY_TTL_HOURS} hours. Reusing a key ` +
+                "for a different request is an IDEMPOTENCY_CONFLICT.",
+              schema: { type: "string", minLength: 1, maxLength: 255 },
+            },
+            ...queryParameters(storyQuerySchema),
+          ],
+          requestBody: {
+            required: true,
+            content: {
+              "application/json": { schema: { $ref: "#/components/schemas/StoryRequest" } },
+              "audio/*": { schema: { type: "string", format: "binary" } },
+            },
+          },
+          responses: {
+            "200": {
+              description: "The story",
+              headers: {
+                "X-Session-Id": {
+                  description: "Audio responses only: send it back as `sessionId` to continue.",
+                  schema: { type: "string", format: "uuid" },
+                },
+                "Content-Language": {
+                  description: "Audio responses only: language of the story.",
+                  schema: { type: "string" },
+                },
+              },
+              content: {
+                "application/json": { schema: { $ref: "#/components/schemas/StoryResponse" } },
+                "audio/*": { schema: { type: "string", format: "binary" } },
+              },
+            },
+            ...errorResponses(),
+          },
+        },
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "Authorization: Bearer <key>" },
+        apiKeyHeader: { type: "apiKey", in: "header", name: "X-API-Key" },
+      },
+      schemas: {
+        StoryRequest: storyRequestSchema,
+        StoryResponse: storyResponseSchema,
+        Error: errorSchema,
+      },
+    },
+  };
+}
@@ -0,0 +1,96 @@
+// A small subset of JSON Schema, enough to describe the /api/v1 bodies.
+// The same schema objects validate requests and responses at runtime and
+// are published as-is in the OpenAPI document, so the two can't drift.
+
+export type Schema =
+  | {
+      type: "string";
+      description?: string;
+      enum?: readonly string[];
+      format?: "uuid" | "byte" | "binary" | "uri-reference";
+      minLength?: number;
+      maxLength?: number;
+      pattern?: string;
+    }
+  | { type: "number" | "integer"; description?: string; minimum?: number }
+  | { type: "boolean"; description?: string }
+  | { type: "array"; description?: string; items: Schema }
+  | {
+      type: "object";
+      description?: string;
+      properties: Record<string, Schema>;
+      required?: readonly string[];
+      additionalProperties?: boolean;
+    };
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Every way `value` breaks `schema`, as "path: problem" lines; empty when
+// it conforms
+export function validate(schema: Schema, value: unknown, at = "body"): string[] {
+  switch (schema.type) {
+    case "string": {
+      if (typeof value !== "string") return [`${at}: must be a string`];
+      const problems: string[] = [];
+      if (schema.enum && !schema.enum.includes(value)) {
+        problems.push(`${at}: must be one of ${schema.enum.join(", ")}`);
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        problems.push(`${at}: must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        problems.push(`${at}: must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        problems.push(`${at}: must match ${schema.pattern}`);
+      }
+      if (schema.format === "uuid" && !UUID_PATTERN.test(value)) {
+        problems.push(`${at}: must be a UUID`);
+      }
+      if (schema.format === "byte" && (value.length % 4 !== 0 || !BASE64_PATTERN.test(value))) {
+        problems.push(`${at}: must be base64`);
+      }
+      return problems;
+    }
+
+    case "number":
+    case "integer": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return [`${at}: must be a number`];
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        return [`${at}: must be an integer`];
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        return [`${at}: must be at least ${schema.minimum}`];
+      }
+      return [];
+    }
+
+    case "boolean":
+      return typeof value === "boolean" ? [] : [`${at}: must be true or false`];
+
+    case "array":
+      if (!Array.isArray(value)) return [`${at}: must be an array`];
+      return value.flatMap((item, index) => validate(schema.items, item, `${at}[${index}]`));
+
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return [`${at}: must be an object`];
+      }
+      const record = value as Record<string, unknown>;
+      const problems: string[] = [];
+      for (const name of schema.required ?? []) {
+        if (record[name] === undefined) problems.push(`${at}.${name}: is required`);
+      }
+      for (const [name, item] of Object.entries(record)) {
+        const property = schema.properties[name];
+        if (property) {
+          if (item !== undefined) problems.push(...validate(property, item, `${at}.${name}`));
+        } else if (schema.additionalProperties === false) {
+          problems.push(`${at}.${name}: is not allowed`);
+        }
+      }
+      return problems;
+    }
+  }
+}
@@ -0,0 +1,168 @@
+import { ERROR_CODES, ERROR_STATUS, VoiceError } from "@/lib/errors";
+import { LANGUAGES, LanguageCode } from "@/lib/languages";
+import type { ReadAlongSegment } from "@/lib/read-along";
+import { MAX_TEXT_LENGTH } from "@/lib/voice-request";
+import { Schema, validate } from "@/lib/api/schema";
+
+// Request and response bodies of POST /api/v1/stories. The interfaces
+// mirror the schemas, which are what is checked at runtime.
+
+const languageCodes = LANGUAGES.map((language) => language.code);
+
+// Options shared by JSON bodies and the query string of raw audio uploads
+const storyOptions = {
+  sessionId: {
+    type: "string",
+    format: "uuid",
+    description: "Continues an earlier story. Returned with every story.",
+  },
+  personaId: {
+    type: "string",
+    maxLength: 64,
+    description: "Who tells the story, from GET /api/personas. The default storyteller otherwise.",
+  },
+  language: {
+    type: "string",
+    enum: languageCodes,
+    description: "Language the child speaks. Detected from the recording when omitted.",
+  },
+  replyLanguage: {
+    type: "string",
+    enum: languageCodes,
+    description: "Language to tell the story in, when it should differ from the child's.",
+  },
+} satisfies Record<string, Schema>;
+
+export interface StoryOptions {
+  sessionId?: string;
+  personaId?: string;
+  language?: LanguageCode;
+  replyLanguage?: LanguageCode;
+}
+
+export const storyQuerySchema: Schema = {
+  type: "object",
+  properties: storyOptions,
+  additionalProperties: false,
+};
+
+// Either `audio` or `text` is required; the route checks that one of them,
+// and only one, is sent
+export const storyRequestSchema: Schema = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    audio: {
+      type: "string",
+      format: "byte",
+      minLength: 1,
+      description: "The child's recording, base64-encoded: WAV, WebM, Ogg, MP3, MP4 or FLAC.",
+    },
+    text: {
+      type: "string",
+      minLength: 1,
+      maxLength: MAX_TEXT_LENGTH,
+      description: "What the child typed, in place of `audio`.",
+    },
+    ...storyOptions,
+  },
+};
+
+export interface StoryRequestBody extends StoryOptions {
+  audio?: string;
+  text?: string;
+}
+
+export const storyResponseSchema: Schema = {
+  type: "object",
+  required: [
+    "sessionId",
+    "personaId",
+    "language",
+    "inputLanguage",
+    "transcript",
+    "response",
+    "segments",
+    "audio",
+    "audioFormat",
+  ],
+  additionalProperties: false,
+  properties: {
+    sessionId: { type: "string", format: "uuid", description: "Send it back to continue the story." },
+    personaId: { type: "string" },
+    language: { type: "string", enum: languageCodes, description: "Language of the story." },
+    inputLanguage: { type: "string", enum: languageCodes, description: "Language the child spoke." },
+    transcript: { type: "string", description: "What the child said or typed." },
+    response: { type: "string", description: 'The story, one "[Speaker] line" per segment.' },
+    segments: {
+      type: "array",
+      description: "The story line by line, for read-along text.",
+      items: {
+        type: "object",
+        required: ["speaker", "text"],
+        additionalProperties: false,
+        properties: {
+          speaker: { type: "string" },
+          text: { type: "string" },
+          duration: { type: "number", minimum: 0, description: "Seconds of audio, when known." },
+        },
+      },
+    },
+    audio: { type: "string", format: "byte", description: "The whole story, spoken." },
+    audioFormat: { type: "string", description: "Format of `audio`, e.g. mp3." },
+    illustrationUrl: {
+      type: "string",
+      format: "uri-reference",
+      description: "A picture of the story, when illustrations are on.",
+    },
+  },
+};
+
+export interface StoryResponseBody {
+  sessionId: string;
+  personaId: string;
+  language: LanguageCode;
+  inputLanguage: LanguageCode;
+  transcript: string;
+  response: string;
+  segments: ReadAlongSegment[];
+  audio: string;
+  audioFormat: string;
+  illustrationUrl?: string;
+}
+
+export const errorSchema: Schema = {
+  type: "object",
+  required: ["error"],
+  properties: {
+    error: {
+      type: "object",
+      required: ["code", "message"],
+      properties: {
+        code: { type: "string", enum: ERROR_CODES.filter((code) => ERROR_STATUS[code] > 0) },
+        message: { type: "string", description: "For developers and logs, in English." },
+        retryAfter: { type: "integer", minimum: 0, description: "Seconds to wait before retrying." },
+      },
+    },
+  },
+};
+
+// A request body or query typed once it conforms; otherwise an
+// INVALID_REQUEST that names the problems
+export function parseRequest<T>(schema: Schema, value: unknown, at = "body"): T {
+  const problems = validate(schema, value, at);
+  if (problems.length > 0) {
+    throw new VoiceError("INVALID_REQUEST", undefined, `Invalid request: ${problems.join("; ")}`);
+  }
+  return value as T;
+}
+
+// Catches a response that strays from its published schema. That is a
+// bug on our side, reported as an internal error.
+export function checkResponse<T>(schema: Schema, value: T): T {
+  const problems = validate(schema, value, "response");
+  if (problems.length > 0) {
+    throw new Error(`Response does not match its schema: ${problems.join("; ")}`);
+  }
+  return value;
+}
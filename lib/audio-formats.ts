@@ -0,0 +1,76 @@
+// Speech output formats, negotiated like `Accept`: the client lists what it
+// can play in an `Accept-Audio` header, e.g.
+//
+//   Accept-Audio: audio/webm;codecs=opus, audio/aac;q=0.9, audio/mpeg;q=0.8
+//
+// and the server encodes speech in the best match. Without the header the
+// provider's own format is sent unchanged.
+
+export const ACCEPT_AUDIO_HEADER = "Accept-Audio";
+
+export type OutputFormat = "mp3" | "webm" | "aac";
+
+// Media types a client may list for each format
+const MEDIA_TYPES: Record<OutputFormat, string[]> = {
+  webm: ["audio/webm"],
+  aac: ["audio/aac", "audio/mp4"],
+  mp3: ["audio/mpeg", "audio/mp3"],
+};
+
+interface MediaRange {
+  type: string;
+  codecs?: string;
+  q: number;
+}
+
+function parseMediaRange(value: string): MediaRange {
+  const [type, ...params] = value.split(";").map((part) => part.trim().toLowerCase());
+  const range: MediaRange = { type, q: 1 };
+  for (const param of params) {
+    const [key, raw = ""] = param.split("=").map((part) => part.trim());
+    const paramValue = raw.replace(/^"|"$/g, "");
+    if (key === "q") range.q = Number(paramValue) || 0;
+    if (key === "codecs") range.codecs = paramValue;
+  }
+  return range;
+}
+
+function matchFormat(range: MediaRange): OutputFormat | null {
+  if (range.type === "*/*" || range.type === "audio/*") return "mp3";
+  // WebM is only useful here with Opus inside
+  if (range.type === "audio/webm") {
+    return !range.codecs || range.codecs === "opus" ? "webm" : null;
+  }
+  for (const [format, types] of Object.entries(MEDIA_TYPES)) {
+    if (types.includes(range.type)) return format as OutputFormat;
+  }
+  return null;
+}
+
+// The client's most preferred supported format, or null when the header is
+// missing or lists nothing we can produce. Ties go to the earlier entry.
+export function negotiateOutputFormat(header: string | null): OutputFormat | null {
+  if (!header) return null;
+
+  let best: OutputFormat | null = null;
+  let bestQ = 0;
+  for (const value of header.split(",")) {
+    const range = parseMediaRange(value);
+    const format = matchFormat(range);
+    if (format && range.q > bestQ) {
+      best = format;
+      bestQ = range.q;
+    }
+  }
+  return best;
+}
+
+// Builds the header from what the browser says it can play, preferring
+// the smaller encodings. MP3 plays everywhere, so it is always listed.
+export function acceptAudioHeader(canPlay: (mediaType: string) => boolean): string {
+  const ranges: string[] = [];
+  if (canPlay('audio/webm; codecs="opus"')) ranges.push("audio/webm;codecs=opus");
+  if (canPlay("audio/aac")) ranges.push("audio/aac;q=0.9");
+  ranges.push("audio/mpeg;q=0.8");
+  return ranges.join(", ");
+}
@@ -0,0 +1,175 @@
+import { readWav } from "@/lib/wav";
+import { adtsDuration, mp3Duration } from "@/lib/audio";
+
+// Identifies uploaded audio from its bytes rather than from what the client
+// claims, and reads its duration where the container makes that cheap.
+
+export type AudioContainer = "webm" | "mp4" | "wav" | "ogg" | "mp3" | "flac";
+
+export const CONTAINER_MIME_TYPES: Record<AudioContainer, string> = {
+  webm: "audio/webm",
+  mp4: "audio/mp4",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  mp3: "audio/mpeg",
+  flac: "audio/flac",
+};
+
+const startsWith = (buffer: Buffer, bytes: number[], offset = 0) =>
+  buffer.length >= offset + bytes.length &&
+  bytes.every((byte, i) => buffer[offset + i] === byte);
+
+const ascii = (buffer: Buffer, start: number, end: number) =>
+  buffer.length >= end ? buffer.toString("ascii", start, end) : "";
+
+export function sniffAudioFormat(buffer: Buffer): AudioContainer | null {
+  if (startsWith(buffer, [0x1a, 0x45, 0xdf, 0xa3])) return "webm";
+  if (ascii(buffer, 4, 8) === "ftyp") return "mp4";
+  if (ascii(buffer, 0, 4) === "RIFF" && ascii(buffer, 8, 12) === "WAVE") return "wav";
+  if (ascii(buffer, 0, 4) === "OggS") return "ogg";
+  if (ascii(buffer, 0, 4) === "fLaC") return "flac";
+  if (ascii(buffer, 0, 3) === "ID3") return "mp3";
+  if (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) return "mp3";
+  return null;
+}
+
+function wavDuration(buffer: Buffer): number | null {
+  const wav = readWav(buffer);
+  const bytesPerSecond = wav.sampleRate * wav.channels * (wav.bitsPerSample / 8);
+  return bytesPerSecond > 0 ? wav.data.length / bytesPerSecond : null;
+}
+
+// Reads the movie header (moov > mvhd). Fragmented MP4 from Safari's
+// MediaRecorder leaves the duration at 0, which is reported as unknown.
+function mp4Duration(buffer: Buffer): number | null {
+  const findBox = (type: string, start: number, end: number): number | null => {
+    let offset = start;
+    while (offset + 8 <= end) {
+      const size = buffer.readUInt32BE(offset);
+      if (ascii(buffer, offset + 4, offset + 8) === type) return offset;
+      if (size < 8) return null;
+      offset += size;
+    }
+    return null;
+  };
+
+  const moov = findBox("moov", 0, buffer.length);
+  if (moov === null) return null;
+  const mvhd = findBox("mvhd", moov + 8, moov + buffer.readUInt32BE(moov));
+  if (mvhd === null || mvhd + 40 > buffer.length) return null;
+
+  const version = buffer[mvhd + 8];
+  const timescale = buffer.readUInt32BE(mvhd + (version === 1 ? 28 : 20));
+  const duration =
+    version === 1
+      ? Number(buffer.readBigUInt64BE(mvhd + 32))
+      : buffer.readUInt32BE(mvhd + 24);
+
+  return timescale > 0 && duration > 0 ? duration / timescale : null;
+}
+
+// Reads an EBML variable-length integer; returns its value and byte length
+function readVint(buffer: Buffer, offset: number): { value: number; length: number } | null {
+  const first = buffer[offset];
+  if (first === undefined || first === 0) return null;
+
+  const length = Math.clz32(first) - 23;
+  if (offset + length > buffer.length) return null;
+
+  let value = first & (0xff >> length);
+  for (let i = 1; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+  }
+  return { value, length };
+}
+
+function readUInt(buffer: Buffer, offset: number, length: number): number {
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    value = value * 256 + buffer[offset + i];
+  }
+  return value;
+}
+
+// Uses the Segment Info duration when present. MediaRecorder writes live
+// WebM without one, so fall back to the timecode of the last cluster,
+// which undercounts by at most one cluster (a few seconds).
+function webmDuration(buffer: Buffer): number | null {
+  const timecodeScaleAt = buffer.indexOf(Buffer.from([0x2a, 0xd7, 0xb1]));
+  let timecodeScale = 1_000_000;
+  if (timecodeScaleAt !== -1) {
+    const size = readVint(buffer, timecodeScaleAt + 3);
+    if (size) timecodeScale = readUInt(buffer, timecodeScaleAt + 3 + size.length, size.value);
+  }
+
+  const durationAt = buffer.indexOf(Buffer.from([0x44, 0x89]));
+  if (durationAt !== -1) {
+    const size = buffer[durationAt + 2];
+    const start = durationAt + 3;
+    if (size === 0x84 && start + 4 <= buffer.length) {
+      return (buffer.readFloatBE(start) * timecodeScale) / 1e9;
+    }
+    if (size === 0x88 && start + 8 <= buffer.length) {
+      return (buffer.readDoubleBE(start) * timecodeScale) / 1e9;
+    }
+  }
+
+  const clusterAt = buffer.lastIndexOf(Buffer.from([0x1f, 0x43, 0xb6, 0x75]));
+  if (clusterAt === -1) return null;
+
+  const clusterSize = readVint(buffer, clusterAt + 4);
+  if (!clusterSize) return null;
+  const timecodeAt = clusterAt + 4 + clusterSize.length;
+  if (buffer[timecodeAt] !== 0xe7) return null;
+
+  const timecodeSize = readVint(buffer, timecodeAt + 1);
+  if (!timecodeSize || timecodeAt + 1 + timecodeSize.length + timecodeSize.value > buffer.length) {
+    return null;
+  }
+  const timecode = readUInt(buffer, timecodeAt + 1 + timecodeSize.length, timecodeSize.value);
+  return (timecode * timecodeScale) / 1e9;
+}
+
+// The granule position of the last page counts samples. Opus always uses
+// a 48 kHz granule clock; Vorbis declares its rate in the ID header.
+function oggDuration(buffer: Buffer): number | null {
+  const lastPage = buffer.lastIndexOf("OggS");
+  if (lastPage === -1 || lastPage + 14 > buffer.length) return null;
+  const granule = Number(buffer.readBigInt64LE(lastPage + 6));
+  if (granule <= 0) return null;
+
+  if (buffer.indexOf("OpusHead") !== -1) return granule / 48000;
+
+  const vorbis = buffer.indexOf("\x01vorbis");
+  if (vorbis !== -1 && vorbis + 16 <= buffer.length) {
+    const sampleRate = buffer.readUInt32LE(vorbis + 12);
+    return sampleRate > 0 ? granule / sampleRate : null;
+  }
+
+  return null;
+}
+
+// Duration in seconds, or null when it can't be read cheaply
+export function audioDuration(buffer: Buffer, format: AudioContainer | string): number | null {
+  try {
+    switch (format) {
+      case "wav":
+        return wavDuration(buffer);
+      case "mp4":
+        return mp4Duration(buffer);
+      case "webm":
+        return webmDuration(buffer);
+      case "ogg":
+        return oggDuration(buffer);
+      case "mp3":
+        return mp3Duration(buffer);
+      case "aac":
+        return adtsDuration(buffer);
+      default:
+        return null;
+    }
+  } catch {
+    // Truncated or malformed headers
+    return null;
+  }
+}
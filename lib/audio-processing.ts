@@ -0,0 +1,201 @@
+import * as Sentry from "@sentry/nextjs";
+import { AudioContainer } from "@/lib/audio-probe";
+import type { OutputFormat } from "@/lib/audio-formats";
+import type { SynthesizedAudio } from "@/lib/providers";
+import { VoiceError } from "@/lib/errors";
+import {
+  FfmpegError,
+  FfmpegTimeoutError,
+  FfmpegUnavailableError,
+  runFfmpeg,
+} from "@/lib/ffmpeg";
+import { encodeWav, readWav } from "@/lib/wav";
+
+// Server-side audio normalization. Uploads are decoded to mono PCM,
+// trimmed to the speech they contain and re-encoded as WAV for the
+// transcriber, so silent clips are turned away before any provider is
+// paid. Speech for the client is encoded in the negotiated output format.
+
+export interface PcmAudio {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+export interface NormalizedUpload {
+  audio: Buffer;
+  container: AudioContainer;
+  mimeType: string;
+  // Seconds of audio left after trimming
+  duration: number;
+}
+
+// Speech recognition works at 16 kHz, so there's no point keeping more
+const DECODE_SAMPLE_RATE = 16_000;
+
+// RMS level (0-1) above which a frame counts as sound rather than silence
+const SILENCE_THRESHOLD = Number(process.env.SILENCE_THRESHOLD) || 0.01;
+// Least total sound a clip needs before it is worth transcribing
+const MIN_SPEECH_SECONDS = 0.25;
+const FRAME_SECONDS = 0.02;
+// Kept either side of the speech so the first and last words aren't clipped
+const TRIM_PADDING_SECONDS = 0.25;
+// Quiet recordings are raised towards this peak, by at most MAX_GAIN
+const TARGET_PEAK = 0.9;
+const MAX_GAIN = 10;
+
+function toMono(data: Buffer, channels: number): Float32Array {
+  const frames = Math.floor(data.length / (2 * channels));
+  const samples = new Float32Array(frames);
+  for (let frame = 0; frame < frames; frame++) {
+    let sum = 0;
+    for (let channel = 0; channel < channels; channel++) {
+      sum += data.readInt16LE((frame * channels + channel) * 2);
+    }
+    samples[frame] = sum / channels / 0x8000;
+  }
+  return samples;
+}
+
+// Decodes to mono PCM: 16-bit WAV directly, anything else through ffmpeg.
+// Returns null when ffmpeg isn't available; throws UNSUPPORTED_AUDIO when
+// the upload can't be decoded, and UPSTREAM_TIMEOUT when decoding runs
+// past FFMPEG_TIMEOUT_MS.
+export async function decodeAudio(
+  audio: Buffer,
+  container: AudioContainer,
+  signal?: AbortSignal
+): Promise<PcmAudio | null> {
+  if (container === "wav") {
+    try {
+      const wav = readWav(audio);
+      if (wav.bitsPerSample === 16 && wav.channels > 0) {
+        return { samples: toMono(wav.data, wav.channels), sampleRate: wav.sampleRate };
+      }
+    } catch {
+      throw new VoiceError("UNSUPPORTED_AUDIO");
+    }
+  }
+
+  try {
+    const pcm = await runFfmpeg(
+      audio,
+      ["-vn", "-ac", "1", "-ar", String(DECODE_SAMPLE_RATE), "-f", "s16le"],
+      signal
+    );
+    return { samples: toMono(pcm, 1), sampleRate: DECODE_SAMPLE_RATE };
+  } catch (error) {
+    if (error instanceof FfmpegUnavailableError) return null;
+    if (error instanceof FfmpegError) throw new VoiceError("UNSUPPORTED_AUDIO");
+    if (error instanceof FfmpegTimeoutError) {
+      Sentry.captureException(error, {
+        tags: { component: "voice-api", action: "decode-audio" },
+      });
+      throw new VoiceError("UPSTREAM_TIMEOUT");
+    }
+    throw error;
+  }
+}
+
+// The [start, end) sample range holding sound, padded a little, or null
+// when the clip is silent
+export function findSpeech(
+  { samples, sampleRate }: PcmAudio,
+  threshold = SILENCE_THRESHOLD
+): { start: number; end: number } | null {
+  const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+  let first = -1;
+  let last = -1;
+  let voicedFrames = 0;
+
+  for (let start = 0; start < samples.length; start += frameLength) {
+    const end = Math.min(samples.length, start + frameLength);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+
+    if (Math.sqrt(sum / (end - start)) >= threshold) {
+      if (first === -1) first = start;
+      last = end;
+      voicedFrames++;
+    }
+  }
+
+  if (first === -1 || voicedFrames * FRAME_SECONDS < MIN_SPEECH_SECONDS) return null;
+
+  const padding = Math.round(sampleRate * TRIM_PADDING_SECONDS);
+  return { start: Math.max(0, first - padding), end: Math.min(samples.length, last + padding) };
+}
+
+function normalizeLevel(samples: Float32Array): Float32Array {
+  let peak = 0;
+  for (const sample of samples) peak = Math.max(peak, Math.abs(sample));
+  if (peak === 0 || peak >= TARGET_PEAK) return samples;
+
+  const gain = Math.min(MAX_GAIN, TARGET_PEAK / peak);
+  return samples.map((sample) => sample * gain);
+}
+
+// Validates an upload and prepares it for transcription. Empty and silent
+// clips are rejected; the rest come back trimmed, level-normalized WAV.
+// Without ffmpeg, compressed uploads are passed through as they are.
+export async function normalizeUpload(
+  audio: Buffer,
+  container: AudioContainer,
+  { maxSeconds, signal }: { maxSeconds: number; signal?: AbortSignal }
+): Promise<NormalizedUpload | null> {
+  const pcm = await decodeAudio(audio, container, signal);
+  if (!pcm) return null;
+
+  if (pcm.samples.length === 0) {
+    throw new VoiceError("NO_AUDIO");
+  }
+  // The container may not have said how long it was
+  if (pcm.samples.length / pcm.sampleRate > maxSeconds) {
+    throw new VoiceError("AUDIO_TOO_LONG");
+  }
+
+  const speech = findSpeech(pcm);
+  if (!speech) {
+    throw new VoiceError("NO_SPEECH");
+  }
+
+  const samples = normalizeLevel(pcm.samples.subarray(speech.start, speech.end));
+  return {
+    audio: encodeWav(samples, pcm.sampleRate),
+    container: "wav",
+    mimeType: "audio/wav",
+    duration: samples.length / pcm.sampleRate,
+  };
+}
+
+const ENCODER_ARGS: Record<OutputFormat, string[]> = {
+  mp3: ["-c:a", "libmp3lame", "-b:a", "64k", "-f", "mp3"],
+  webm: ["-c:a", "libopus", "-b:a", "32k", "-f", "webm"],
+  // ADTS rather than MP4, which can't be written to a pipe as one file
+  aac: ["-c:a", "aac", "-b:a", "64k", "-f", "adts"],
+};
+
+// Encodes speech in the client's format, for the formats the speech
+// provider couldn't produce itself. The provider's own audio is sent
+// instead when no format was negotiated, when it already matches, or when
+// encoding isn't possible; every client can play MP3 and WAV.
+export async function encodeSpeech(
+  speech: SynthesizedAudio,
+  format: OutputFormat | null,
+  signal?: AbortSignal
+): Promise<SynthesizedAudio> {
+  if (!format || speech.format === format) return speech;
+
+  try {
+    const data = await runFfmpeg(speech.data, ["-vn", ...ENCODER_ARGS[format]], signal);
+    return { ...speech, data, format };
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    if (!(error instanceof FfmpegUnavailableError)) {
+      Sentry.captureException(error, {
+        tags: { component: "voice-api", action: "encode-speech" },
+        extra: { from: speech.format, to: format },
+      });
+    }
+    return speech;
+  }
+}
@@ -0,0 +1,145 @@
+import { concatWav } from "@/lib/wav";
+import type { SynthesizedAudio } from "@/lib/providers";
+
+// Server-side helpers for working with encoded audio buffers.
+
+const MPEG1_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_BITRATES = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG-1
+  2: [22050, 24000, 16000], // MPEG-2
+  0: [11025, 12000, 8000], // MPEG-2.5
+};
+
+// Size of an ID3v2 tag at the start of the buffer, or 0 if there is none
+function id3Length(buffer: Buffer): number {
+  if (buffer.length < 10 || buffer.toString("ascii", 0, 3) !== "ID3") return 0;
+  // Tag size is a 28-bit "syncsafe" integer
+  const size =
+    (buffer[6] << 21) | (buffer[7] << 14) | (buffer[8] << 7) | buffer[9];
+  const footer = buffer[5] & 0x10 ? 10 : 0;
+  return 10 + size + footer;
+}
+
+// Length of the MPEG Layer III frame starting at offset, or 0 if no
+// valid frame header is found there
+function mp3FrameLength(buffer: Buffer, offset: number): number {
+  if (offset + 4 > buffer.length) return 0;
+  if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xe0) !== 0xe0) return 0;
+
+  const version = (buffer[offset + 1] >> 3) & 3;
+  const layer = (buffer[offset + 1] >> 1) & 3;
+  const bitrateIndex = buffer[offset + 2] >> 4;
+  const sampleRateIndex = (buffer[offset + 2] >> 2) & 3;
+  const padding = (buffer[offset + 2] >> 1) & 1;
+
+  if (version === 1 || layer !== 1) return 0;
+  if (bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return 0;
+
+  const bitrate = (version === 3 ? MPEG1_BITRATES : MPEG2_BITRATES)[bitrateIndex] * 1000;
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  return Math.floor(((version === 3 ? 144 : 72) * bitrate) / sampleRate) + padding;
+}
+
+// Walks the frames of an MP3 stream and adds up their playing time.
+// Layer III frames hold 1152 samples in MPEG-1 and 576 in MPEG-2/2.5.
+export function mp3Duration(buffer: Buffer): number | null {
+  let offset = id3Length(buffer);
+  let seconds = 0;
+
+  while (offset < buffer.length) {
+    const frameLength = mp3FrameLength(buffer, offset);
+    if (frameLength === 0) break;
+
+    const version = (buffer[offset + 1] >> 3) & 3;
+    const sampleRate = SAMPLE_RATES[version][(buffer[offset + 2] >> 2) & 3];
+    seconds += (version === 3 ? 1152 : 576) / sampleRate;
+    offset += frameLength;
+  }
+
+  return seconds > 0 ? seconds : null;
+}
+
+const ADTS_SAMPLE_RATES = [
+  96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350,
+];
+
+// Walks the frames of an ADTS (raw AAC) stream, as TTS providers send it.
+// Each frame holds one to four blocks of 1024 samples.
+export function adtsDuration(buffer: Buffer): number | null {
+  let offset = 0;
+  let seconds = 0;
+
+  while (offset + 7 <= buffer.length) {
+    // Sync word, then layer 0
+    if (buffer[offset] !== 0xff || (buffer[offset + 1] & 0xf6) !== 0xf0) break;
+
+    const sampleRate = ADTS_SAMPLE_RATES[(buffer[offset + 2] >> 2) & 0x0f];
+    const frameLength =
+      ((buffer[offset + 3] & 0x03) << 11) | (buffer[offset + 4] << 3) | (buffer[offset + 5] >> 5);
+    if (!sampleRate || frameLength < 7) break;
+
+    seconds += (((buffer[offset + 6] & 0x03) + 1) * 1024) / sampleRate;
+    offset += frameLength;
+  }
+
+  return seconds > 0 ? seconds : null;
+}
+
+// Drops the ID3 tag and the Xing/Info header frame. Those describe the
+// length of a single file, so leaving them in a concatenated track makes
+// players report (and sometimes stop at) the duration of the first part.
+function stripMp3Headers(buffer: Buffer): Buffer {
+  let offset = id3Length(buffer);
+  const frameLength = mp3FrameLength(buffer, offset);
+
+  if (frameLength > 0) {
+    const frame = buffer.subarray(offset, offset + frameLength);
+    if (frame.includes("Xing") || frame.includes("Info")) {
+      offset += frameLength;
+    }
+  }
+
+  return buffer.subarray(offset);
+}
+
+// Joins synthesized segments into one playable track. All parts must share
+// the same format.
+export function concatAudio(parts: SynthesizedAudio[]): SynthesizedAudio {
+  if (parts.length === 0) {
+    throw new Error("No audio to concatenate");
+  }
+  if (parts.length === 1) {
+    return parts[0];
+  }
+
+  const { format } = parts[0];
+  if (parts.some((part) => part.format !== format)) {
+    throw new Error("Cannot concatenate audio in different formats");
+  }
+
+  switch (format) {
+    case "mp3":
+      return { format, data: Buffer.concat(parts.map((part) => stripMp3Headers(part.data))) };
+    case "wav":
+      return { format, data: concatWav(parts.map((part) => part.data)) };
+    // ADTS frames stand alone, so the streams simply follow each other
+    case "aac":
+      return { format, data: Buffer.concat(parts.map((part) => part.data)) };
+    default:
+      throw new Error(`Cannot concatenate ${format} audio`);
+  }
+}
+
+const MIME_TYPES: Record<string, string> = {
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  opus: "audio/ogg",
+  aac: "audio/aac",
+  flac: "audio/flac",
+  pcm: "audio/pcm",
+};
+
+export function audioMimeType(format: string): string {
+  return MIME_TYPES[format] ?? `audio/${format}`;
+}
@@ -0,0 +1,142 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// File-system cache for paid upstream results (story text, TTS audio).
+// Entries expire after a TTL, and the oldest entries are evicted once the
+// directory grows past its size budget.
+
+export interface CacheOptions {
+  ttlSeconds: number;
+  maxBytes: number;
+}
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  writtenAt: number;
+}
+
+// Hashes the parts of a key so any text can be used safely as a file name
+export function cacheKey(...parts: string[]): string {
+  return createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+export class FileCache {
+  // Bytes on disk, counted on first write and kept up to date after that
+  private totalBytes: number | null = null;
+
+  constructor(
+    private directory: string,
+    private options: CacheOptions
+  ) {}
+
+  private entryPath(key: string) {
+    return path.join(this.directory, key);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const file = this.entryPath(key);
+    try {
+      const stats = await fs.stat(file);
+      if (Date.now() - stats.mtimeMs > this.options.ttlSeconds * 1000) {
+        await this.remove(file, stats.size);
+        return null;
+      }
+      return await fs.readFile(file);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, data: Buffer): Promise<void> {
+    if (data.length > this.options.maxBytes) return;
+
+    await fs.mkdir(this.directory, { recursive: true });
+    if (this.totalBytes === null) {
+      this.totalBytes = (await this.entries()).reduce((sum, entry) => sum + entry.size, 0);
+    }
+
+    const file = this.entryPath(key);
+    const previous = await fs.stat(file).catch(() => null);
+
+    // Write then rename so readers never see a half-written entry
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, data);
+    await fs.rename(temporary, file);
+
+    this.totalBytes += data.length - (previous?.size ?? 0);
+    if (this.totalBytes > this.options.maxBytes) {
+      await this.evict();
+    }
+  }
+
+  private async entries(): Promise<CacheEntry[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const entries = await Promise.all(
+      files
+        .filter((file) => !file.endsWith(".tmp"))
+        .map(async (file) => {
+          const stats = await fs.stat(path.join(this.directory, file)).catch(() => null);
+          return stats ? { file, size: stats.size, writtenAt: stats.mtimeMs } : null;
+        })
+    );
+    return entries.filter((entry): entry is CacheEntry => !!entry);
+  }
+
+  // Deletes entries written before `cutoff`; returns how many went
+  async purge(cutoff: Date): Promise<number> {
+    let purged = 0;
+    for (const entry of await this.entries()) {
+      if (entry.writtenAt < cutoff.getTime()) {
+        await this.remove(path.join(this.directory, entry.file), entry.size);
+        purged++;
+      }
+    }
+    return purged;
+  }
+
+  private async remove(file: string, size: number) {
+    await fs.rm(file, { force: true });
+    if (this.totalBytes !== null) this.totalBytes -= size;
+  }
+
+  // Drops expired entries, then the oldest ones until the cache is back
+  // under 90% of its budget, so eviction doesn't run on every write.
+  private async evict() {
+    const expiredBefore = Date.now() - this.options.ttlSeconds * 1000;
+    const entries = (await this.entries()).sort((a, b) => a.writtenAt - b.writtenAt);
+    this.totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of entries) {
+      if (entry.writtenAt >= expiredBefore && this.totalBytes <= this.options.maxBytes * 0.9) {
+        break;
+      }
+      await this.remove(path.join(this.directory, entry.file), entry.size);
+    }
+  }
+}
+
+let cache: FileCache | null | undefined;
+
+// The shared response cache, or null when RESPONSE_CACHE=off
+export function getResponseCache(): FileCache | null {
+  if (cache === undefined) {
+    cache =
+      process.env.RESPONSE_CACHE === "off"
+        ? null
+        : new FileCache(process.env.CACHE_DIR || path.join(process.cwd(), ".data", "cache"), {
+            ttlSeconds: Number(process.env.CACHE_TTL_SECONDS) || 7 * 24 * 60 * 60,
+            maxBytes: Number(process.env.CACHE_MAX_BYTES) || 200 * 1024 * 1024,
+          });
+  }
+  return cache;
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import OpenAI from "openai";
+import { ERROR_STATUS, ErrorEnvelope, VoiceError } from "@/lib/errors";
+import { ContentBlockedError } from "@/lib/safety/moderation";
+import { UpstreamError } from "@/lib/providers/resilience";
+
+// Maps anything thrown while handling a voice request onto the error
+// taxonomy. Provider errors keep only their kind; their messages may
+// contain prompts, keys or vendor details and are never sent on.
+export function toVoiceError(error: unknown): VoiceError {
+  if (error instanceof VoiceError) return error;
+  if (error instanceof ContentBlockedError) return new VoiceError("CONTENT_BLOCKED");
+  if (error instanceof UpstreamError) {
+    return new VoiceError(error.timedOut ? "UPSTREAM_TIMEOUT" : "UPSTREAM_ERROR");
+  }
+
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new VoiceError("UPSTREAM_TIMEOUT");
+  }
+  if (error instanceof OpenAI.APIError) {
+    return new VoiceError(
+      error.status === 408 || error.status === 504 ? "UPSTREAM_TIMEOUT" : "UPSTREAM_ERROR"
+    );
+  }
+
+  return new VoiceError("INTERNAL_ERROR");
+}
+
+// The pipeline stage an error came from, for the Sentry `stage` tag
+export function failedStage(error: unknown): string | undefined {
+  return error instanceof UpstreamError ? error.stage : undefined;
+}
+
+export function errorResponse(error: VoiceError): NextResponse<ErrorEnvelope> {
+  const headers: Record<string, string> = {};
+  if (error.retryAfter !== undefined) {
+    headers["Retry-After"] = String(error.retryAfter);
+  }
+
+  return NextResponse.json(
+    { error: error.toBody() },
+    { status: ERROR_STATUS[error.code], headers }
+  );
+}
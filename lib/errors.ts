@@ -0,0 +1,145 @@
+// Error taxonomy shared by /api/voice, /api/v1 and the client. The story
+// endpoints always answer failures with the same envelope, `{ error: {
+// code, message } }`, and the client picks what to show from the code
+// alone: messages from upstream providers are never passed through to
+// children. Parent-facing routes send `{ error: "..." }` instead.
+
+export const ERROR_CODES = [
+  // The request
+  "INVALID_REQUEST",
+  "NO_AUDIO",
+  "AUDIO_TOO_LARGE",
+  "AUDIO_TOO_LONG",
+  "UNSUPPORTED_AUDIO",
+  "UNKNOWN_PERSONA",
+  "UNKNOWN_PROFILE",
+  "CONSENT_REQUIRED",
+  "UNAUTHORIZED",
+  "IDEMPOTENCY_CONFLICT",
+  // Understanding and safety
+  "NO_SPEECH",
+  "UNINTELLIGIBLE",
+  "CONTENT_BLOCKED",
+  // Limits
+  "RATE_LIMITED",
+  "QUOTA_EXCEEDED",
+  // Upstream providers and the server
+  "UPSTREAM_TIMEOUT",
+  "UPSTREAM_ERROR",
+  "NO_RESPONSE",
+  "INTERNAL_ERROR",
+  // Client side only
+  "NETWORK_ERROR",
+  "PLAYBACK_FAILED",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface ErrorBody {
+  code: ErrorCode;
+  // Plain English for API consumers and logs; not meant for children
+  message: string;
+  // Seconds to wait before retrying (RATE_LIMITED, QUOTA_EXCEEDED)
+  retryAfter?: number;
+}
+
+export interface ErrorEnvelope {
+  error: ErrorBody;
+}
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  NO_AUDIO: 400,
+  AUDIO_TOO_LARGE: 413,
+  AUDIO_TOO_LONG: 413,
+  UNSUPPORTED_AUDIO: 415,
+  UNKNOWN_PERSONA: 400,
+  UNKNOWN_PROFILE: 400,
+  CONSENT_REQUIRED: 403,
+  UNAUTHORIZED: 401,
+  IDEMPOTENCY_CONFLICT: 409,
+  NO_SPEECH: 400,
+  UNINTELLIGIBLE: 400,
+  CONTENT_BLOCKED: 422,
+  RATE_LIMITED: 429,
+  QUOTA_EXCEEDED: 429,
+  UPSTREAM_TIMEOUT: 504,
+  UPSTREAM_ERROR: 502,
+  NO_RESPONSE: 500,
+  INTERNAL_ERROR: 500,
+  // Never sent by the server
+  NETWORK_ERROR: 0,
+  PLAYBACK_FAILED: 0,
+};
+
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  INVALID_REQUEST: "Invalid request body",
+  NO_AUDIO: "No audio provided",
+  AUDIO_TOO_LARGE: "Recording is too large",
+  AUDIO_TOO_LONG: "Recording is too long",
+  UNSUPPORTED_AUDIO: "Unsupported audio format",
+  UNKNOWN_PERSONA: "Unknown persona",
+  UNKNOWN_PROFILE: "Unknown profile",
+  CONSENT_REQUIRED: "A parent must consent before recordings are sent",
+  UNAUTHORIZED: "A valid API key is required",
+  IDEMPOTENCY_CONFLICT: "This Idempotency-Key belongs to another request",
+  NO_SPEECH: "The recording is silent",
+  UNINTELLIGIBLE: "Could not understand audio",
+  CONTENT_BLOCKED: "The request or story did not pass the safety checks",
+  RATE_LIMITED: "Too many requests",
+  QUOTA_EXCEEDED: "Daily quota exceeded",
+  UPSTREAM_TIMEOUT: "A provider took too long to respond",
+  UPSTREAM_ERROR: "A provider request failed",
+  NO_RESPONSE: "No response generated",
+  INTERNAL_ERROR: "Failed to process voice request",
+  NETWORK_ERROR: "Could not reach the server",
+  PLAYBACK_FAILED: "Could not play audio",
+};
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return (ERROR_CODES as readonly unknown[]).includes(value);
+}
+
+// An error with a taxonomy code. Thrown on the server to produce an error
+// envelope, and on the client when one is received.
+export class VoiceError extends Error {
+  constructor(
+    public code: ErrorCode,
+    public retryAfter?: number,
+    message = ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = "VoiceError";
+  }
+
+  toBody(): ErrorBody {
+    return {
+      code: this.code,
+      message: this.message,
+      ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }),
+    };
+  }
+
+  static fromBody(body: Partial<ErrorBody> | undefined): VoiceError {
+    const code = isErrorCode(body?.code) ? body.code : "INTERNAL_ERROR";
+    return new VoiceError(code, body?.retryAfter, body?.message);
+  }
+}
+
+// Reads the error envelope of a failed response. Anything else (a proxy
+// timeout page, a platform error) becomes a generic code for its status.
+export async function readErrorResponse(response: Response): Promise<VoiceError> {
+  const retryAfter = Number(response.headers.get("retry-after")) || undefined;
+  try {
+    const data = (await response.json()) as Partial<ErrorEnvelope>;
+    if (data.error && typeof data.error === "object") {
+      return VoiceError.fromBody({ retryAfter, ...data.error });
+    }
+  } catch {
+    // Not JSON
+  }
+  return new VoiceError(
+    response.status === 504 ? "UPSTREAM_TIMEOUT" : "INTERNAL_ERROR",
+    retryAfter
+  );
+}
@@ -0,0 +1,103 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import * as Sentry from "@sentry/nextjs";
+
+// Runs the ffmpeg binary (FFMPEG_PATH, or `ffmpeg` on the PATH) for the
+// audio work plain TypeScript can't do: decoding compressed uploads and
+// encoding speech for the client. Callers treat FfmpegUnavailableError as
+// "skip this step", so the app still runs where ffmpeg isn't installed.
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFMPEG_TIMEOUT_MS = Number(process.env.FFMPEG_TIMEOUT_MS) || 15_000;
+
+export class FfmpegUnavailableError extends Error {
+  constructor() {
+    super(`ffmpeg not found at "${FFMPEG_PATH}"`);
+    this.name = "FfmpegUnavailableError";
+  }
+}
+
+// ffmpeg ran but could not process the input
+export class FfmpegError extends Error {
+  constructor(
+    public exitCode: number | null,
+    public stderr: string
+  ) {
+    super(`ffmpeg exited with code ${exitCode}`);
+    this.name = "FfmpegError";
+  }
+}
+
+// ffmpeg took longer than FFMPEG_TIMEOUT_MS and was stopped
+export class FfmpegTimeoutError extends Error {
+  constructor() {
+    super(`ffmpeg took longer than ${FFMPEG_TIMEOUT_MS}ms`);
+    this.name = "FfmpegTimeoutError";
+  }
+}
+
+let unavailable = false;
+
+// Pipes `input` through ffmpeg with `args` between the input and output
+// (e.g. codec and format options) and resolves with what it writes to
+// stdout. The input goes through a temporary file rather than stdin, since
+// some containers (MP4 with a trailing index) can't be read from a pipe.
+// Only an abort by the caller rejects with the caller's AbortError; running
+// out of time is an FfmpegTimeoutError.
+export async function runFfmpeg(
+  input: Buffer,
+  args: string[],
+  signal?: AbortSignal
+): Promise<Buffer> {
+  if (unavailable) throw new FfmpegUnavailableError();
+
+  const inputPath = path.join(os.tmpdir(), `voice-${randomUUID()}`);
+  await fs.writeFile(inputPath, input);
+
+  try {
+    return await new Promise<Buffer>((resolve, reject) => {
+      const timeout = AbortSignal.timeout(FFMPEG_TIMEOUT_MS);
+      const child = spawn(
+        FFMPEG_PATH,
+        ["-hide_banner", "-loglevel", "error", "-nostdin", "-i", inputPath, ...args, "pipe:1"],
+        {
+          stdio: ["ignore", "pipe", "pipe"],
+          signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+        }
+      );
+
+      // The timeout, not the caller, stopped ffmpeg
+      const timedOut = () => timeout.aborted && !signal?.aborted;
+
+      const output: Buffer[] = [];
+      let stderr = "";
+      child.stdout.on("data", (chunk: Buffer) => output.push(chunk));
+      child.stderr.on("data", (chunk: Buffer) => {
+        stderr = (stderr + chunk.toString("utf8")).slice(-2000);
+      });
+
+      child.on("error", (error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") {
+          unavailable = true;
+          Sentry.captureMessage("ffmpeg not found; audio decoding and transcoding are disabled", {
+            level: "warning",
+            tags: { component: "ffmpeg" },
+            extra: { path: FFMPEG_PATH },
+          });
+          reject(new FfmpegUnavailableError());
+        } else {
+          reject(timedOut() ? new FfmpegTimeoutError() : error);
+        }
+      });
+      child.on("close", (code) => {
+        if (code === 0) resolve(Buffer.concat(output));
+        else reject(timedOut() ? new FfmpegTimeoutError() : new FfmpegError(code, stderr));
+      });
+    });
+  } finally {
+    await fs.rm(inputPath, { force: true });
+  }
+}
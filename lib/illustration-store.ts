@@ -0,0 +1,93 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { GeneratedImage } from "@/lib/providers";
+
+// Generated story illustrations, served by /api/illustrations/[id]. Each
+// image is a single file named by its id and format.
+
+export interface IllustrationStore {
+  save(image: GeneratedImage): Promise<string>;
+  get(id: string): Promise<GeneratedImage | null>;
+  // Deletes images saved before `cutoff`; returns how many went
+  purge(cutoff: Date): Promise<number>;
+}
+
+const ILLUSTRATION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const IMAGE_FORMATS = ["webp", "png", "jpeg", "svg"];
+
+const MIME_TYPES: Record<string, string> = {
+  webp: "image/webp",
+  png: "image/png",
+  jpeg: "image/jpeg",
+  svg: "image/svg+xml",
+};
+
+export function imageMimeType(format: string): string {
+  return MIME_TYPES[format] ?? `image/${format}`;
+}
+
+export function illustrationUrl(id: string): string {
+  return `/api/illustrations/${id}`;
+}
+
+export class FileIllustrationStore implements IllustrationStore {
+  constructor(private directory: string) {}
+
+  async save(image: GeneratedImage) {
+    if (!IMAGE_FORMATS.includes(image.format)) {
+      throw new Error(`Unsupported image format "${image.format}"`);
+    }
+
+    const id = randomUUID();
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(path.join(this.directory, `${id}.${image.format}`), image.data);
+    return id;
+  }
+
+  async get(id: string) {
+    if (!ILLUSTRATION_ID_PATTERN.test(id)) return null;
+
+    for (const format of IMAGE_FORMATS) {
+      try {
+        const data = await fs.readFile(path.join(this.directory, `${id}.${format}`));
+        return { data, format };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+      }
+    }
+    return null;
+  }
+
+  async purge(cutoff: Date) {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+      throw error;
+    }
+
+    let purged = 0;
+    for (const file of files) {
+      const filePath = path.join(this.directory, file);
+      const { mtime } = await fs.stat(filePath);
+      if (mtime < cutoff) {
+        await fs.rm(filePath, { force: true });
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+let store: IllustrationStore | null = null;
+
+export function getIllustrationStore(): IllustrationStore {
+  if (!store) {
+    store = new FileIllustrationStore(
+      process.env.ILLUSTRATION_DIR || path.join(process.cwd(), ".data", "illustrations")
+    );
+  }
+  return store;
+}
@@ -0,0 +1,72 @@
+import * as Sentry from "@sentry/nextjs";
+import { getProviders } from "@/lib/providers";
+import { checkContent, reportableReasons } from "@/lib/safety/moderation";
+import { getIllustrationStore, illustrationUrl } from "@/lib/illustration-store";
+import { failedStage } from "@/lib/error-response";
+import { RequestUsage, measureStage } from "@/lib/metrics";
+
+// The optional illustration step. A scene is picked from the finished
+// story by the story model, checked like any other text, drawn by the
+// image provider and stored; the caller gets back a URL. It runs while
+// the story is being voiced, and a failure only means no picture.
+
+const SCENE_INSTRUCTIONS =
+  "You write prompts for a children's picture book illustration. Given a story, describe in one sentence of at most 40 words a single scene from it: who is there, what they are doing and where. Describe only what can be seen. Never use names, words to be written in the picture, or anything scary.";
+
+const ILLUSTRATION_STYLE =
+  "Gentle, colorful children's picture book illustration in soft watercolor, friendly characters, warm light, no text or letters.";
+
+export async function illustrateStory(
+  storyText: string,
+  signal: AbortSignal,
+  usage?: RequestUsage
+): Promise<string | null> {
+  const { generator, moderator, illustrator } = getProviders();
+  if (!illustrator) return null;
+
+  try {
+    return await measureStage("illustrate", async (span) => {
+      const scene = (
+        await generator.generate(
+          [
+            { role: "system", content: SCENE_INSTRUCTIONS },
+            { role: "user", content: storyText },
+          ],
+          {
+            temperature: 0.4,
+            maxTokens: 120,
+            signal,
+            onUsage: (tokens) => usage?.addTokens(tokens, span),
+          }
+        )
+      ).trim();
+      if (!scene) return null;
+
+      const check = await checkContent(scene, moderator, { signal });
+      if (!check.allowed) {
+        Sentry.captureMessage("Illustration scene blocked", {
+          level: "info",
+          tags: { component: "voice-api", action: "illustrate" },
+          extra: { reasons: reportableReasons(check.reasons) },
+        });
+        return null;
+      }
+
+      const image = await illustrator.generate(`${scene} ${ILLUSTRATION_STYLE}`, {
+        signal,
+        onModel: (model) => {
+          if (usage) usage.models.illustrate = model;
+        },
+      });
+      if (usage) usage.images++;
+      return illustrationUrl(await getIllustrationStore().save(image));
+    });
+  } catch (error) {
+    if (!signal.aborted) {
+      Sentry.captureException(error, {
+        tags: { component: "voice-api", action: "illustrate", stage: failedStage(error) },
+      });
+    }
+    return null;
+  }
+}
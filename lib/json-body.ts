@@ -0,0 +1,14 @@
+import type { NextRequest } from "next/server";
+
+// JSON request bodies are only ever objects. Anything else (`null`, a
+// number, an array) is treated as an empty object, so the fields read from
+// it are simply missing and get the usual 400.
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export async function readJsonObject(request: NextRequest): Promise<Record<string, unknown>> {
+  const body: unknown = await request.json().catch(() => null);
+  return isRecord(body) ? body : {};
+}
@@ -0,0 +1,84 @@
+// Story languages. The child's language comes from their profile or is
+// detected from the transcript; stories are told in that language, or in
+// a chosen target language for language practice.
+
+export type LanguageCode = "en" | "es";
+
+export interface Language {
+  code: LanguageCode;
+  // English name, used in prompts
+  name: string;
+  // Name in the language itself, used in pickers
+  nativeName: string;
+  // Narrator voice that sounds natural in this language; the persona's
+  // voice is used when omitted
+  narratorVoice?: string;
+  // Frequent short words used to tell languages apart in a transcript
+  markers: string[];
+}
+
+export const LANGUAGES: Language[] = [
+  {
+    code: "en",
+    name: "English",
+    nativeName: "English",
+    markers: [
+      "the", "a", "and", "about", "me", "tell", "story", "is", "of", "with", "please", "what",
+    ],
+  },
+  {
+    code: "es",
+    name: "Spanish",
+    nativeName: "Español",
+    narratorVoice: "nova",
+    markers: [
+      "el", "la", "los", "las", "un", "una", "y", "de", "que", "cuéntame", "cuento", "sobre",
+      "por", "favor", "con", "es",
+    ],
+  },
+];
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return LANGUAGES.some((language) => language.code === value);
+}
+
+export function getLanguage(code: LanguageCode): Language {
+  return LANGUAGES.find((language) => language.code === code) ?? getLanguage(DEFAULT_LANGUAGE);
+}
+
+// Scores each language by how many of its marker words the text uses.
+// Short requests like "tell me a story about sharks" carry enough of them;
+// with no markers at all the default language wins.
+export function detectLanguage(text: string): LanguageCode {
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  let best: LanguageCode = DEFAULT_LANGUAGE;
+  let bestScore = 0;
+
+  for (const language of LANGUAGES) {
+    const markers = new Set(language.markers);
+    const score = words.filter((word) => markers.has(word)).length;
+    if (score > bestScore) {
+      best = language.code;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Prompt text that sets the story language. When the story language
+// differs from the one the child spoke, the story is pitched at a learner.
+export function languagePrompt(storyLanguage: LanguageCode, inputLanguage: LanguageCode): string {
+  const story = getLanguage(storyLanguage);
+  const parts = [
+    `Tell the story in ${story.name}. Still tag narration as [Narrator], but write every line in ${story.name}.`,
+  ];
+
+  if (storyLanguage !== inputLanguage) {
+    parts.push(
+      `The child asked in ${getLanguage(inputLanguage).name} and is learning ${story.name}, so use simple, common words and short sentences.`
+    );
+  }
+  return parts.join(" ");
+}
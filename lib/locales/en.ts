@@ -0,0 +1,110 @@
+import type { ErrorCode } from "@/lib/errors";
+
+// English UI strings. Every other locale must provide the same keys; see
+// Messages below.
+
+export const en = {
+  home: {
+    title: "Voice Assistant",
+    holdHint: "Hold the button to speak",
+    tapHint: "Tap the button and start talking",
+    holdMode: "Hold to talk",
+    tapMode: "Hands-free",
+    history: "History",
+    account: "Account",
+    signIn: "Sign in",
+    newStory: "New story",
+    storyLanguage: "Story language",
+    autoLanguage: "Same as me",
+  },
+  voiceButton: {
+    tapToTalk: "Tap to talk",
+    holdToRecord: "Hold to record",
+    stopsWhenQuiet: "Stops when you finish talking, or tap to stop",
+    micDenied: "Microphone access denied. Please enable it in your browser settings.",
+    micUnsupported: "This device can't record sound.",
+  },
+  // Typing a story idea, for when the microphone can't be used
+  textPrompt: {
+    title: "Type your story idea instead",
+    placeholder: "A story about...",
+    send: "Tell me!",
+    starters: [
+      "A dragon who is afraid of the dark",
+      "A trip to the moon in a cardboard rocket",
+      "A puppy's first day at school",
+      "A pirate who loves to bake",
+    ],
+  },
+  // Shown to the parent before the first recording
+  consent: {
+    title: "For grown-ups",
+    explanation:
+      "To tell a story, this app records your child's voice and sends it to our speech and story services.",
+    retention: (days: number | null) =>
+      days === null
+        ? "Stories and recordings are kept in your history until you delete them."
+        : `Stories and recordings are kept in your history for ${days} days, then deleted.`,
+    agree: "I'm this child's parent or guardian, and I agree.",
+    continue: "Continue",
+    failed: "That didn't work. Please try again.",
+  },
+  readAlong: {
+    youSaid: "You said",
+    illustration: "A picture of the story",
+  },
+  // Stories kept on this device, offered when the server can't be reached
+  library: {
+    title: "Stories on this device",
+    unreachable: "I can't reach Story Land right now. Want to hear a story you already know?",
+    play: "Play",
+    close: "Not now",
+    keep: "Keep this story",
+    kept: "Kept for later",
+  },
+  profilePicker: {
+    prompt: "Who's listening?",
+  },
+  status: {
+    idle: "Ready",
+    recording: "Listening...",
+    processing: "Thinking...",
+    playing: "Speaking...",
+    blocked: "Let's try a different story!",
+    limited: "Time for a little break!",
+    error: "Oops!",
+  },
+  retry: {
+    tomorrow: "Come back tomorrow for more stories.",
+    minutes: (minutes: number) => `Try again in ${minutes} minutes.`,
+    seconds: (seconds: number) => `Try again in ${seconds} seconds.`,
+    moment: "Try again in a moment.",
+  },
+  // What a child sees for each error code. Kept short, calm and free of
+  // technical detail; the code decides the wording, never the server text.
+  errors: {
+    INVALID_REQUEST: "Something got mixed up. Let's try again!",
+    NO_AUDIO: "I didn't hear anything. Hold the button and talk to me!",
+    AUDIO_TOO_LARGE: "That was a long one! Try asking in fewer words.",
+    AUDIO_TOO_LONG: "That was a long one! Try asking in fewer words.",
+    UNSUPPORTED_AUDIO: "I couldn't listen to that recording. Let's try again!",
+    UNKNOWN_PERSONA: "That storyteller is taking a nap. Pick another one!",
+    UNKNOWN_PROFILE: "I'm not sure who's listening. Ask a grown-up to pick your name.",
+    CONSENT_REQUIRED: "Ask a grown-up to say it's OK first.",
+    UNAUTHORIZED: "Ask a grown-up to check the story settings.",
+    IDEMPOTENCY_CONFLICT: "Something got mixed up. Let's try again!",
+    NO_SPEECH: "It was very quiet! Hold the button and tell me what story you'd like.",
+    UNINTELLIGIBLE: "I couldn't quite hear that. Can you say it again?",
+    CONTENT_BLOCKED: "Hold the button and ask for a new adventure.",
+    RATE_LIMITED: "Let's rest our ears for a moment.",
+    QUOTA_EXCEEDED: "That's all the stories for today!",
+    UPSTREAM_TIMEOUT: "The story is taking too long to arrive. Let's try again!",
+    UPSTREAM_ERROR: "The story machine hiccuped. Let's try again!",
+    NO_RESPONSE: "I couldn't think of a story. Let's try again!",
+    INTERNAL_ERROR: "Oops, something went wrong. Let's try again!",
+    NETWORK_ERROR: "I can't reach Story Land. Ask a grown-up to check the internet.",
+    PLAYBACK_FAILED: "I couldn't play the story. Tap to try again!",
+  } satisfies Record<ErrorCode, string>,
+};
+
+export type Messages = typeof en;
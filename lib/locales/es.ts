@@ -0,0 +1,100 @@
+import type { Messages } from "./en";
+
+export const es: Messages = {
+  home: {
+    title: "Asistente de voz",
+    holdHint: "Mantén el botón para hablar",
+    tapHint: "Toca el botón y empieza a hablar",
+    holdMode: "Mantener para hablar",
+    tapMode: "Manos libres",
+    history: "Historial",
+    account: "Cuenta",
+    signIn: "Entrar",
+    newStory: "Nuevo cuento",
+    storyLanguage: "Idioma del cuento",
+    autoLanguage: "Igual que yo",
+  },
+  voiceButton: {
+    tapToTalk: "Toca para hablar",
+    holdToRecord: "Mantén para grabar",
+    stopsWhenQuiet: "Se detiene cuando terminas de hablar, o toca para parar",
+    micDenied: "No hay acceso al micrófono. Actívalo en los ajustes del navegador.",
+    micUnsupported: "Este dispositivo no puede grabar sonido.",
+  },
+  textPrompt: {
+    title: "Escribe tu idea para el cuento",
+    placeholder: "Un cuento sobre...",
+    send: "¡Cuéntamelo!",
+    starters: [
+      "Un dragón que le tiene miedo a la oscuridad",
+      "Un viaje a la luna en un cohete de cartón",
+      "El primer día de escuela de un perrito",
+      "Un pirata al que le encanta hornear",
+    ],
+  },
+  consent: {
+    title: "Para adultos",
+    explanation:
+      "Para contar un cuento, esta aplicación graba la voz de tu hijo o hija y la envía a nuestros servicios de voz y de cuentos.",
+    retention: (days: number | null) =>
+      days === null
+        ? "Los cuentos y las grabaciones se guardan en tu historial hasta que los borres."
+        : `Los cuentos y las grabaciones se guardan en tu historial durante ${days} días y después se borran.`,
+    agree: "Soy su madre, padre o tutor, y estoy de acuerdo.",
+    continue: "Continuar",
+    failed: "No ha funcionado. Inténtalo de nuevo.",
+  },
+  readAlong: {
+    youSaid: "Dijiste",
+    illustration: "Un dibujo del cuento",
+  },
+  library: {
+    title: "Cuentos en este dispositivo",
+    unreachable: "Ahora no puedo llegar a la Tierra de los Cuentos. ¿Quieres escuchar un cuento que ya conoces?",
+    play: "Escuchar",
+    close: "Ahora no",
+    keep: "Guardar este cuento",
+    kept: "Guardado para después",
+  },
+  profilePicker: {
+    prompt: "¿Quién está escuchando?",
+  },
+  status: {
+    idle: "Listo",
+    recording: "Escuchando...",
+    processing: "Pensando...",
+    playing: "Hablando...",
+    blocked: "¡Probemos con otro cuento!",
+    limited: "¡Hora de un pequeño descanso!",
+    error: "¡Ups!",
+  },
+  retry: {
+    tomorrow: "Vuelve mañana para más cuentos.",
+    minutes: (minutes: number) => `Inténtalo de nuevo en ${minutes} minutos.`,
+    seconds: (seconds: number) => `Inténtalo de nuevo en ${seconds} segundos.`,
+    moment: "Inténtalo de nuevo en un momento.",
+  },
+  errors: {
+    INVALID_REQUEST: "Algo se enredó. ¡Probemos otra vez!",
+    NO_AUDIO: "No escuché nada. ¡Mantén el botón y háblame!",
+    AUDIO_TOO_LARGE: "¡Eso fue muy largo! Pídelo con menos palabras.",
+    AUDIO_TOO_LONG: "¡Eso fue muy largo! Pídelo con menos palabras.",
+    UNSUPPORTED_AUDIO: "No pude escuchar esa grabación. ¡Probemos otra vez!",
+    UNKNOWN_PERSONA: "Ese cuentacuentos está durmiendo la siesta. ¡Elige otro!",
+    UNKNOWN_PROFILE: "No sé quién está escuchando. Pide a un adulto que elija tu nombre.",
+    CONSENT_REQUIRED: "Primero pide permiso a un adulto.",
+    UNAUTHORIZED: "Pide a un adulto que revise los ajustes de los cuentos.",
+    IDEMPOTENCY_CONFLICT: "Algo se enredó. ¡Probemos otra vez!",
+    NO_SPEECH: "¡Estaba muy callado! Mantén el botón y dime qué cuento quieres.",
+    UNINTELLIGIBLE: "No te escuché bien. ¿Puedes repetirlo?",
+    CONTENT_BLOCKED: "Mantén el botón y pide una nueva aventura.",
+    RATE_LIMITED: "Descansemos los oídos un momento.",
+    QUOTA_EXCEEDED: "¡Esos fueron todos los cuentos de hoy!",
+    UPSTREAM_TIMEOUT: "El cuento está tardando mucho. ¡Probemos otra vez!",
+    UPSTREAM_ERROR: "La máquina de cuentos tuvo hipo. ¡Probemos otra vez!",
+    NO_RESPONSE: "No se me ocurrió un cuento. ¡Probemos otra vez!",
+    INTERNAL_ERROR: "¡Ups, algo salió mal! Probemos otra vez.",
+    NETWORK_ERROR: "No puedo llegar a la Tierra de los Cuentos. Pide a un adulto que revise internet.",
+    PLAYBACK_FAILED: "No pude reproducir el cuento. ¡Toca para intentarlo otra vez!",
+  },
+};
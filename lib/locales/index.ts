@@ -0,0 +1,52 @@
+import { useCallback, useSyncExternalStore } from "react";
+import { en, type Messages } from "./en";
+import { es } from "./es";
+
+// UI locale catalog. The locale follows the browser language until a
+// grown-up picks one, which is then remembered across visits.
+
+export type { Messages };
+
+export type Locale = "en" | "es";
+
+export const LOCALES: Record<Locale, Messages> = { en, es };
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+const LOCALE_STORAGE_KEY = "voice.locale";
+const LOCALE_EVENT = "voice-locale";
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && value in LOCALES;
+}
+
+export function getMessages(locale: Locale = DEFAULT_LOCALE): Messages {
+  return LOCALES[locale];
+}
+
+function readLocale(): Locale {
+  const saved = localStorage.getItem(LOCALE_STORAGE_KEY);
+  if (isLocale(saved)) return saved;
+  const browser = navigator.language.slice(0, 2);
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+}
+
+function subscribe(onChange: () => void) {
+  window.addEventListener(LOCALE_EVENT, onChange);
+  window.addEventListener("storage", onChange);
+  return () => {
+    window.removeEventListener(LOCALE_EVENT, onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+// The current UI locale and a setter. Server rendering uses the default
+// locale; the client switches after hydration.
+export function useLocale(): [Locale, (locale: Locale) => void] {
+  const locale = useSyncExternalStore(subscribe, readLocale, () => DEFAULT_LOCALE);
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(LOCALE_STORAGE_KEY, next);
+    window.dispatchEvent(new Event(LOCALE_EVENT));
+  }, []);
+  return [locale, setLocale];
+}
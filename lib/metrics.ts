@@ -0,0 +1,250 @@
+import * as Sentry from "@sentry/nextjs";
+import type { Span } from "@sentry/nextjs";
+import { toVoiceError } from "@/lib/error-response";
+import { BillableUsage, CostStage, estimateCost } from "@/lib/pricing";
+import type { TokenUsage } from "@/lib/providers";
+
+// Per-stage timing for POST /api/voice. Each stage runs in a Sentry span
+// and is recorded in in-process Prometheus metrics, served as text by
+// /api/metrics. Counters live for the life of the server process.
+
+export type MetricStage =
+  | "decode"
+  | "transcribe"
+  | "moderate"
+  | "generate"
+  | "synthesize"
+  | "encode"
+  | "illustrate";
+
+type Labels = Record<string, string>;
+
+const escapeLabel = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+const seriesKey = (labels: Labels) => JSON.stringify(Object.entries(labels).sort());
+
+class Counter {
+  private series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1) {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...[...this.series.values()].map(
+        ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+      ),
+    ];
+  }
+}
+
+class Histogram {
+  private series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number) {
+    const key = seriesKey(labels);
+    const entry = this.series.get(key) ?? {
+      labels,
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.series.set(key, entry);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, counts, sum, count } of this.series.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2, 4, 8, 15, 30, 60];
+const COST_BUCKETS = [0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25];
+
+function createRegistry() {
+  return {
+    requests: new Counter("voice_requests_total", "Voice requests by mode and outcome."),
+    requestDuration: new Histogram(
+      "voice_request_duration_seconds",
+      "Time to handle a voice request, to the end of the stream when streaming.",
+      LATENCY_BUCKETS
+    ),
+    stageDuration: new Histogram(
+      "voice_stage_duration_seconds",
+      "Time spent in each pipeline stage, per call.",
+      LATENCY_BUCKETS
+    ),
+    stageErrors: new Counter("voice_stage_errors_total", "Failed stage calls by stage and error code."),
+    tokens: new Counter("voice_tokens_total", "Story model tokens by kind (prompt, completion)."),
+    audioSeconds: new Counter(
+      "voice_audio_seconds_total",
+      "Seconds of audio transcribed (input) and synthesized (output)."
+    ),
+    speechCharacters: new Counter(
+      "voice_speech_characters_total",
+      "Characters sent for speech synthesis."
+    ),
+    cost: new Counter("voice_cost_usd_total", "Estimated upstream cost in USD, by stage."),
+    requestCost: new Histogram(
+      "voice_request_cost_usd",
+      "Estimated upstream cost of each request in USD.",
+      COST_BUCKETS
+    ),
+  };
+}
+
+// Kept on globalThis: route handlers can be bundled separately, and all
+// of them must share one set of metrics
+const globalMetrics = globalThis as typeof globalThis & {
+  voiceMetrics?: ReturnType<typeof createRegistry>;
+};
+const metrics = (globalMetrics.voiceMetrics ??= createRegistry());
+
+export function renderMetrics(): string {
+  return Object.values(metrics)
+    .flatMap((metric) => metric.render())
+    .join("\n")
+    .concat("\n");
+}
+
+// Aborts (the client left or barged in) are not failures of the stage
+function isAbort(error: unknown): boolean {
+  return error instanceof Error && (error.name === "AbortError" || error.name === "APIUserAbortError");
+}
+
+function observeStage(stage: MetricStage, startedAt: number, error?: unknown) {
+  metrics.stageDuration.observe({ stage }, (performance.now() - startedAt) / 1000);
+  if (error !== undefined && !isAbort(error)) {
+    metrics.stageErrors.inc({ stage, code: toVoiceError(error).code });
+  }
+}
+
+// Runs one stage call in its own span and records its duration, and its
+// error code when it throws
+export function measureStage<T>(stage: MetricStage, run: (span: Span) => Promise<T>): Promise<T> {
+  const startedAt = performance.now();
+  return Sentry.startSpan({ name: `voice.${stage}`, op: `voice.${stage}` }, async (span) => {
+    try {
+      const result = await run(span);
+      observeStage(stage, startedAt);
+      return result;
+    } catch (error) {
+      observeStage(stage, startedAt, error);
+      throw error;
+    }
+  });
+}
+
+export interface StageTimer {
+  span: Span;
+  end(error?: unknown): void;
+}
+
+// For stages that don't fit in one callback, like a streamed completion
+// consumed in a loop
+export function startStage(stage: MetricStage): StageTimer {
+  const startedAt = performance.now();
+  const span = Sentry.startInactiveSpan({ name: `voice.${stage}`, op: `voice.${stage}` });
+  return {
+    span,
+    end(error?: unknown) {
+      observeStage(stage, startedAt, error);
+      if (error !== undefined) span.setStatus({ code: 2, message: "internal_error" });
+      span.end();
+    },
+  };
+}
+
+// What one request used, for token, audio and cost metrics
+export class RequestUsage implements BillableUsage {
+  readonly startedAt = performance.now();
+  models: Partial<Record<CostStage, string>> = {};
+  inputAudioSeconds = 0;
+  outputAudioSeconds = 0;
+  promptTokens = 0;
+  completionTokens = 0;
+  speechCharacters = 0;
+  images = 0;
+
+  // "audio" is a /api/v1 story sent back as raw audio
+  constructor(readonly mode: "json" | "stream" | "audio") {}
+
+  addTokens(tokens: TokenUsage, span?: Span) {
+    this.promptTokens += tokens.promptTokens;
+    this.completionTokens += tokens.completionTokens;
+    span?.setAttributes({
+      "gen_ai.usage.input_tokens": tokens.promptTokens,
+      "gen_ai.usage.output_tokens": tokens.completionTokens,
+    });
+  }
+}
+
+// Records a finished request. `outcome` is "ok", "aborted" or the error
+// code sent to the client.
+export function recordRequest(usage: RequestUsage, outcome: string) {
+  const { mode } = usage;
+  metrics.requests.inc({ mode, outcome });
+  metrics.requestDuration.observe({ mode }, (performance.now() - usage.startedAt) / 1000);
+
+  metrics.tokens.inc({ kind: "prompt" }, usage.promptTokens);
+  metrics.tokens.inc({ kind: "completion" }, usage.completionTokens);
+  metrics.audioSeconds.inc({ direction: "input" }, usage.inputAudioSeconds);
+  metrics.audioSeconds.inc({ direction: "output" }, usage.outputAudioSeconds);
+  metrics.speechCharacters.inc({}, usage.speechCharacters);
+
+  const cost = estimateCost(usage);
+  let total = 0;
+  for (const [stage, amount] of Object.entries(cost)) {
+    metrics.cost.inc({ stage }, amount);
+    total += amount;
+  }
+  metrics.requestCost.observe({}, total);
+
+  const active = Sentry.getActiveSpan();
+  if (active) {
+    Sentry.getRootSpan(active).setAttributes({
+      "voice.outcome": outcome,
+      "voice.prompt_tokens": usage.promptTokens,
+      "voice.completion_tokens": usage.completionTokens,
+      "voice.input_audio_seconds": usage.inputAudioSeconds,
+      "voice.output_audio_seconds": usage.outputAudioSeconds,
+      "voice.estimated_cost_usd": total,
+    });
+  }
+}
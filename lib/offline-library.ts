@@ -0,0 +1,124 @@
+import type { TimedSegment } from "@/lib/read-along";
+
+// Stories kept on this device so they can be played without a connection:
+// the last few the child heard, plus any a grown-up kept as favorites.
+// Text, read-along timing and audio are stored together in IndexedDB.
+// Where IndexedDB isn't available, nothing is kept and the library is empty.
+
+export interface SavedAudioChunk {
+  // Base64, as received from /api/voice
+  audio: string;
+  format: string;
+  // The stretch of the story timeline this chunk plays, in seconds
+  start: number;
+  end: number;
+}
+
+export interface SavedStory {
+  id: string;
+  savedAt: string;
+  favorite: boolean;
+  transcript: string;
+  segments: TimedSegment[];
+  chunks: SavedAudioChunk[];
+}
+
+// Recent stories kept besides the favorites
+export const MAX_RECENT_STORIES = 10;
+
+const DATABASE_NAME = "voice-library";
+const DATABASE_VERSION = 1;
+const STORE_NAME = "stories";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function isAvailable() {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      database = null;
+      reject(request.error);
+    };
+  });
+  return database;
+}
+
+function settle<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return settle(run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)));
+}
+
+// Favorites first, then the most recently saved
+export async function listSavedStories(): Promise<SavedStory[]> {
+  if (!isAvailable()) return [];
+
+  const stories = await withStore("readonly", (store) => store.getAll() as IDBRequest<SavedStory[]>);
+  return stories.sort(
+    (a, b) => Number(b.favorite) - Number(a.favorite) || b.savedAt.localeCompare(a.savedAt)
+  );
+}
+
+// Deletes stories past the retention period, favorites included, then
+// the oldest non-favorites beyond MAX_RECENT_STORIES
+async function prune(retentionDays: number | null) {
+  const stories = await listSavedStories();
+  const cutoff =
+    retentionDays === null ? null : new Date(Date.now() - retentionDays * 86_400_000).toISOString();
+
+  let recent = 0;
+  for (const story of stories) {
+    const expired = cutoff !== null && story.savedAt < cutoff;
+    const overflow = !story.favorite && ++recent > MAX_RECENT_STORIES;
+    if (expired || overflow) {
+      await withStore("readwrite", (store) => store.delete(story.id));
+    }
+  }
+}
+
+// Keeps a story that was just played. `retentionDays` is the server's
+// retention period, which the device follows too.
+export async function saveStory(
+  story: Omit<SavedStory, "savedAt" | "favorite">,
+  retentionDays: number | null
+): Promise<void> {
+  if (!isAvailable()) return;
+
+  await withStore("readwrite", (store) =>
+    store.put({ ...story, savedAt: new Date().toISOString(), favorite: false })
+  );
+  await prune(retentionDays);
+}
+
+// Forgets every story on the device, when a parent signs out, so the next
+// person to use the browser can't play them
+export async function clearSavedStories(): Promise<void> {
+  if (!isAvailable()) return;
+
+  await withStore("readwrite", (store) => store.clear());
+}
+
+export async function setFavorite(id: string, favorite: boolean): Promise<void> {
+  if (!isAvailable()) return;
+
+  const story = await withStore("readonly", (store) => store.get(id) as IDBRequest<SavedStory>);
+  if (!story) return;
+  await withStore("readwrite", (store) => store.put({ ...story, favorite }));
+}
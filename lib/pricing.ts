@@ -0,0 +1,54 @@
+// List prices (USD) used to estimate what a story cost. Estimates only:
+// each stage is priced at the model that last answered it, and models
+// missing from these tables (like the fake providers) cost nothing.
+
+const TRANSCRIPTION_PER_MINUTE: Record<string, number> = {
+  "gpt-4o-transcribe": 0.006,
+  "gpt-4o-mini-transcribe": 0.003,
+  "whisper-1": 0.006,
+};
+
+const TOKENS_PER_MILLION: Record<string, { input: number; output: number }> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+};
+
+const SPEECH_PER_MILLION_CHARACTERS: Record<string, number> = {
+  "tts-1": 15,
+  "tts-1-hd": 30,
+  "gpt-4o-mini-tts": 12,
+};
+
+// One low-quality 1024x1024 image
+const IMAGE_EACH: Record<string, number> = {
+  "gpt-image-1": 0.011,
+};
+
+export type CostStage = "transcribe" | "generate" | "synthesize" | "illustrate";
+
+export interface BillableUsage {
+  models: Partial<Record<CostStage, string>>;
+  inputAudioSeconds: number;
+  promptTokens: number;
+  completionTokens: number;
+  // Characters sent for synthesis; cached audio isn't counted
+  speechCharacters: number;
+  images: number;
+}
+
+export function estimateCost(usage: BillableUsage): Record<CostStage, number> {
+  const { models } = usage;
+  const tokens = TOKENS_PER_MILLION[models.generate ?? ""];
+
+  return {
+    transcribe:
+      ((TRANSCRIPTION_PER_MINUTE[models.transcribe ?? ""] ?? 0) * usage.inputAudioSeconds) / 60,
+    generate: tokens
+      ? (tokens.input * usage.promptTokens + tokens.output * usage.completionTokens) / 1e6
+      : 0,
+    synthesize:
+      ((SPEECH_PER_MILLION_CHARACTERS[models.synthesize ?? ""] ?? 0) * usage.speechCharacters) /
+      1e6,
+    illustrate: (IMAGE_EACH[models.illustrate ?? ""] ?? 0) * usage.images,
+  };
+}
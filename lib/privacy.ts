@@ -0,0 +1,91 @@
+import type { Breadcrumb, Event } from "@sentry/nextjs";
+
+// Keeps children's words and voices out of Sentry. Every event, transaction
+// and breadcrumb passes through here on the client, the server and the
+// edge: fields that can hold a transcript, story text or audio are
+// replaced, request bodies, cookies and query strings are dropped, and
+// binary payloads never leave the process.
+
+const FILTERED = "[Filtered]";
+
+// Keys whose values can hold what a child said or heard
+const SENSITIVE_KEYS = new Set([
+  "transcript",
+  "prompt",
+  "story",
+  "storytext",
+  "script",
+  "responsetext",
+  "text",
+  "content",
+  "scene",
+  "messages",
+  "segments",
+  "audio",
+  "audioblob",
+  "body",
+  "cookie",
+  "cookies",
+  "authorization",
+  // Query strings, such as a parent's history search
+  "query_string",
+  "http.query",
+  "url.query",
+  // Local variables of stack frames
+  "vars",
+]);
+
+// Keys holding a URL, or a span description naming one, whose query is cut off
+const URL_KEYS = new Set(["url", "from", "to", "http.url", "url.full", "description"]);
+
+const withoutQuery = (url: string) => url.replace(/[?#].*$/, "");
+
+// Deep enough for any event Sentry builds; anything nested further is dropped
+const MAX_DEPTH = 12;
+
+function scrubValue(value: unknown, depth: number): unknown {
+  if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) return FILTERED;
+  if (typeof Blob !== "undefined" && value instanceof Blob) return FILTERED;
+  if (value === null || typeof value !== "object") return value;
+  if (depth >= MAX_DEPTH) return FILTERED;
+
+  if (Array.isArray(value)) return value.map((item) => scrubValue(item, depth + 1));
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      SENSITIVE_KEYS.has(key.toLowerCase())
+        ? FILTERED
+        : URL_KEYS.has(key.toLowerCase()) && typeof item === "string"
+          ? withoutQuery(item)
+          : scrubValue(item, depth + 1),
+    ])
+  );
+}
+
+export function scrubEvent<T extends Event>(event: T): T {
+  const scrubbed = scrubValue(event, 0) as T;
+
+  // The request body is the upload itself; cookies carry sign-in tokens
+  if (scrubbed.request) {
+    delete scrubbed.request.data;
+    delete scrubbed.request.cookies;
+    delete scrubbed.request.query_string;
+  }
+  if (scrubbed.user) {
+    scrubbed.user = scrubbed.user.id ? { id: scrubbed.user.id } : {};
+  }
+
+  return scrubbed;
+}
+
+export function scrubBreadcrumb(breadcrumb: Breadcrumb): Breadcrumb | null {
+  // Console output can echo anything, including a story being debugged
+  if (breadcrumb.category === "console") {
+    return { ...breadcrumb, message: FILTERED, data: undefined };
+  }
+
+  return breadcrumb.data
+    ? { ...breadcrumb, data: scrubValue(breadcrumb.data, 0) as Breadcrumb["data"] }
+    : breadcrumb;
+}
@@ -0,0 +1,45 @@
+import { FileCache, cacheKey } from "@/lib/cache";
+import { SpeechSynthesizer, SynthesisOptions, SynthesizedAudio } from "./types";
+
+// Wraps a synthesizer so identical lines (same text, voice, format and
+// model) are only paid for once. Cached results come back with
+// `cached: true`.
+export class CachingSpeechSynthesizer implements SpeechSynthesizer {
+  constructor(
+    private synthesizer: SpeechSynthesizer,
+    private cache: FileCache
+  ) {}
+
+  get model() {
+    return this.synthesizer.model;
+  }
+
+  async synthesize(text: string, options: SynthesisOptions = {}): Promise<SynthesizedAudio> {
+    const key = (model: string) =>
+      cacheKey("tts", text, options.voice ?? "", options.format ?? "", model);
+
+    // The format is stored as a short prefix line before the audio bytes
+    const entry = await this.cache.get(key(this.model));
+    if (entry) {
+      const newline = entry.indexOf(0x0a);
+      return {
+        data: entry.subarray(newline + 1),
+        format: entry.toString("utf8", 0, newline),
+        cached: true,
+      };
+    }
+
+    // Audio from a fallback model is kept under that model, so it never
+    // stands in for the primary one
+    let model = this.model;
+    const audio = await this.synthesizer.synthesize(text, {
+      ...options,
+      onModel: (answered) => {
+        model = answered;
+        options.onModel?.(answered);
+      },
+    });
+    await this.cache.set(key(model), Buffer.concat([Buffer.from(`${audio.format}\n`), audio.data]));
+    return audio;
+  }
+}
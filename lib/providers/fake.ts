@@ -0,0 +1,148 @@
+import { generateTone } from "@/lib/wav";
+import {
+  AudioInput,
+  ContentModerator,
+  GeneratedImage,
+  GenerationOptions,
+  ImageGenerator,
+  ModerationResult,
+  SpeechSynthesizer,
+  StoryGenerator,
+  StoryMessage,
+  SynthesisOptions,
+  SynthesizedAudio,
+  Transcriber,
+} from "./types";
+
+// Deterministic stand-ins for offline development and tests. No network
+// calls are made and the same input always produces the same output.
+
+const DEFAULT_TRANSCRIPT = "Tell me a story about a friendly dragon.";
+
+export class FakeTranscriber implements Transcriber {
+  readonly model = "fake-transcript";
+
+  constructor(
+    private transcript = process.env.FAKE_TRANSCRIPT || DEFAULT_TRANSCRIPT
+  ) {}
+
+  async transcribe(audio: AudioInput): Promise<string> {
+    return audio.data.length > 0 ? this.transcript : "";
+  }
+}
+
+// Rough token count, about four characters each
+const countTokens = (text: string) => Math.ceil(text.length / 4);
+
+export class FakeStoryGenerator implements StoryGenerator {
+  readonly model = "fake-story";
+
+  async generate(messages: StoryMessage[], options: GenerationOptions = {}): Promise<string> {
+    const story = this.write(messages);
+    options.onUsage?.({
+      promptTokens: countTokens(messages.map((m) => m.content).join("\n")),
+      completionTokens: countTokens(story),
+    });
+    return story;
+  }
+
+  private write(messages: StoryMessage[]): string {
+    const prompt = [...messages].reverse().find((m) => m.role === "user");
+    const topic = (prompt?.content ?? "a faraway land")
+      .trim()
+      .replace(/[.!?]+$/, "");
+
+    const system = messages.find((m) => m.role === "system")?.content ?? "";
+    // Asked for a scene to illustrate (see lib/illustration)
+    if (system.includes("illustration")) {
+      return "A curious little fox and a wise owl walking through a meadow at sunset.";
+    }
+
+    // Follows the language instruction from languagePrompt
+    if (system.includes("Tell the story in Spanish")) {
+      return [
+        `[Narrator] Había una vez un zorrito curioso que escuchó a alguien decir: ${topic}.`,
+        `[Zorro] ¡Qué aventura sería!`,
+        `[Búho] Vamos a descubrirlo juntos.`,
+        `[Narrator] Y así partieron, y al atardecer habían hecho un nuevo amigo maravilloso. Fin.`,
+      ].join("\n");
+    }
+
+    return [
+      `[Narrator] Once upon a time, a curious little fox heard someone say: ${topic}.`,
+      `[Fox] What an adventure that would be!`,
+      `[Owl] Let's go find out together.`,
+      `[Narrator] And so they set off, and by sunset they had made a wonderful new friend. The end.`,
+    ].join("\n");
+  }
+
+  async *stream(
+    messages: StoryMessage[],
+    options: GenerationOptions = {}
+  ): AsyncIterable<string> {
+    const story = await this.generate(messages, options);
+    for (const word of story.match(/\S+\s*/g) ?? []) {
+      options.signal?.throwIfAborted();
+      yield word;
+    }
+  }
+}
+
+// Gives each voice its own pitch so multi-speaker output is audible
+function toneFor(voice: string): number {
+  let hash = 0;
+  for (const char of voice) {
+    hash = (hash * 31 + char.charCodeAt(0)) % 1000;
+  }
+  return 220 + (hash % 12) * 40;
+}
+
+export class FakeSpeechSynthesizer implements SpeechSynthesizer {
+  readonly model = "fake-tone";
+
+  async synthesize(
+    text: string,
+    options: SynthesisOptions = {}
+  ): Promise<SynthesizedAudio> {
+    // Roughly match spoken length so playback timing feels realistic
+    const duration = Math.min(10, Math.max(0.5, text.length * 0.05));
+    return {
+      data: generateTone(duration, toneFor(options.voice ?? "alloy")),
+      format: "wav",
+    };
+  }
+}
+
+// Warm placeholder colors for fake illustrations
+const PLACEHOLDER_COLORS = ["#7c3aed", "#db2777", "#0891b2", "#059669", "#d97706", "#4f46e5"];
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+// Draws the scene description on a gradient, so offline runs show what
+// would have been illustrated
+export class FakeImageGenerator implements ImageGenerator {
+  readonly model = "fake-placeholder";
+
+  async generate(prompt: string): Promise<GeneratedImage> {
+    const color = PLACEHOLDER_COLORS[toneFor(prompt) % PLACEHOLDER_COLORS.length];
+    const lines = (prompt.match(/.{1,32}(\s|$)/g) ?? []).slice(0, 8);
+    const text = lines
+      .map(
+        (line, index) =>
+          `<text x="256" y="${200 + index * 28}" text-anchor="middle">${escapeXml(line.trim())}</text>`
+      )
+      .join("");
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512"><defs><linearGradient id="sky" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="${color}"/><stop offset="1" stop-color="#0f172a"/></linearGradient></defs><rect width="512" height="512" fill="url(#sky)"/><circle cx="400" cy="110" r="48" fill="#fde68a" opacity="0.8"/><g fill="#ffffff" font-family="sans-serif" font-size="20">${text}</g></svg>`;
+    return { data: Buffer.from(svg, "utf8"), format: "svg" };
+  }
+}
+
+// Flags nothing; the team blocklist still applies on top of it
+export class FakeModerator implements ContentModerator {
+  async moderate(): Promise<ModerationResult> {
+    return { flagged: false, categories: [] };
+  }
+}
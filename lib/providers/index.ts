@@ -0,0 +1,133 @@
+import { getResponseCache } from "@/lib/cache";
+import {
+  FakeImageGenerator,
+  FakeModerator,
+  FakeSpeechSynthesizer,
+  FakeStoryGenerator,
+  FakeTranscriber,
+} from "./fake";
+import {
+  OpenAIImageGenerator,
+  OpenAIModerator,
+  OpenAISpeechSynthesizer,
+  OpenAIStoryGenerator,
+  OpenAITranscriber,
+} from "./openai";
+import { CachingSpeechSynthesizer } from "./cached";
+import {
+  ResilientImageGenerator,
+  ResilientModerator,
+  ResilientSpeechSynthesizer,
+  ResilientStoryGenerator,
+  ResilientTranscriber,
+} from "./resilience";
+import {
+  ContentModerator,
+  ImageGenerator,
+  SpeechSynthesizer,
+  StoryGenerator,
+  Transcriber,
+  VoiceProviders,
+} from "./types";
+
+export * from "./types";
+
+type ProviderName = "openai" | "fake";
+
+// Each stage can be switched independently (STT_PROVIDER, LLM_PROVIDER,
+// TTS_PROVIDER, MODERATION_PROVIDER, IMAGE_PROVIDER); VOICE_PROVIDER sets
+// the default for all of them.
+function providerFor(stageVariable: string): ProviderName {
+  const name = process.env[stageVariable] || process.env.VOICE_PROVIDER || "openai";
+  if (name !== "openai" && name !== "fake") {
+    throw new Error(`Unknown provider "${name}" in ${stageVariable}`);
+  }
+  return name;
+}
+
+// Primary provider followed by its fallback model, if any. Setting the
+// fallback variable to "off" leaves only the primary.
+function withFallback<T>(
+  primary: T,
+  fallbackVariable: string,
+  defaultModel: string,
+  create: (model: string) => T
+): T[] {
+  const model = process.env[fallbackVariable] ?? defaultModel;
+  return model && model !== "off" ? [primary, create(model)] : [primary];
+}
+
+function createTranscriber(): Transcriber {
+  const transcribers =
+    providerFor("STT_PROVIDER") === "fake"
+      ? [new FakeTranscriber()]
+      : withFallback(
+          new OpenAITranscriber(),
+          "STT_FALLBACK_MODEL",
+          "whisper-1",
+          (model) => new OpenAITranscriber(model)
+        );
+  return new ResilientTranscriber(transcribers);
+}
+
+function createStoryGenerator(): StoryGenerator {
+  const generators =
+    providerFor("LLM_PROVIDER") === "fake"
+      ? [new FakeStoryGenerator()]
+      : withFallback(
+          new OpenAIStoryGenerator(),
+          "LLM_FALLBACK_MODEL",
+          "gpt-4o-mini",
+          (model) => new OpenAIStoryGenerator(model)
+        );
+  return new ResilientStoryGenerator(generators);
+}
+
+function createSpeechSynthesizer(): SpeechSynthesizer {
+  const synthesizers =
+    providerFor("TTS_PROVIDER") === "fake"
+      ? [new FakeSpeechSynthesizer()]
+      : withFallback(
+          new OpenAISpeechSynthesizer(),
+          "TTS_FALLBACK_MODEL",
+          "gpt-4o-mini-tts",
+          (model) => new OpenAISpeechSynthesizer(model)
+        );
+  const synthesizer = new ResilientSpeechSynthesizer(synthesizers);
+
+  const cache = getResponseCache();
+  return cache ? new CachingSpeechSynthesizer(synthesizer, cache) : synthesizer;
+}
+
+function createModerator(): ContentModerator {
+  return new ResilientModerator([
+    providerFor("MODERATION_PROVIDER") === "fake"
+      ? new FakeModerator()
+      : new OpenAIModerator(),
+  ]);
+}
+
+// Illustrations are optional: ILLUSTRATIONS=off skips the stage
+function createIllustrator(): ImageGenerator | null {
+  if (process.env.ILLUSTRATIONS === "off") return null;
+  return new ResilientImageGenerator([
+    providerFor("IMAGE_PROVIDER") === "fake"
+      ? new FakeImageGenerator()
+      : new OpenAIImageGenerator(),
+  ]);
+}
+
+let providers: VoiceProviders | null = null;
+
+export function getProviders(): VoiceProviders {
+  if (!providers) {
+    providers = {
+      transcriber: createTranscriber(),
+      generator: createStoryGenerator(),
+      synthesizer: createSpeechSynthesizer(),
+      moderator: createModerator(),
+      illustrator: createIllustrator(),
+    };
+  }
+  return providers;
+}
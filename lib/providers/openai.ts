@@ -0,0 +1,199 @@
+import OpenAI, { toFile } from "openai";
+import type { OutputFormat } from "@/lib/audio-formats";
+import {
+  AudioInput,
+  ContentModerator,
+  GeneratedImage,
+  GenerationOptions,
+  ImageGenerator,
+  ModerationResult,
+  RequestOptions,
+  SpeechSynthesizer,
+  StoryGenerator,
+  StoryMessage,
+  SynthesisOptions,
+  SynthesizedAudio,
+  Transcriber,
+  TranscriptionOptions,
+} from "./types";
+
+let client: OpenAI | null = null;
+
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY,
+      // Retries and timeouts are handled per stage (see ./resilience)
+      maxRetries: 0,
+    });
+  }
+  return client;
+}
+
+export class OpenAITranscriber implements Transcriber {
+  constructor(readonly model = "gpt-4o-transcribe") {}
+
+  async transcribe(
+    audio: AudioInput,
+    options: TranscriptionOptions = {}
+  ): Promise<string> {
+    // Accepts webm, mp4, wav, etc.
+    const file = await toFile(audio.data, audio.filename, {
+      type: audio.mimeType,
+    });
+
+    const transcription = await getClient().audio.transcriptions.create(
+      {
+        file,
+        model: this.model,
+        language: options.language,
+      },
+      { signal: options.signal }
+    );
+
+    return transcription.text;
+  }
+}
+
+export class OpenAIStoryGenerator implements StoryGenerator {
+  constructor(readonly model = "gpt-4o") {}
+
+  async generate(
+    messages: StoryMessage[],
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const chatResponse = await getClient().chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        temperature: options.temperature,
+        max_completion_tokens: options.maxTokens,
+      },
+      { signal: options.signal }
+    );
+
+    if (chatResponse.usage) {
+      options.onUsage?.({
+        promptTokens: chatResponse.usage.prompt_tokens,
+        completionTokens: chatResponse.usage.completion_tokens,
+      });
+    }
+
+    return chatResponse.choices[0]?.message?.content ?? "";
+  }
+
+  async *stream(
+    messages: StoryMessage[],
+    options: GenerationOptions = {}
+  ): AsyncIterable<string> {
+    const completion = await getClient().chat.completions.create(
+      {
+        model: this.model,
+        messages,
+        temperature: options.temperature,
+        max_completion_tokens: options.maxTokens,
+        stream: true,
+        // Adds a final chunk, with no choices, carrying the token counts
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    for await (const chunk of completion) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) yield delta;
+      if (chunk.usage) {
+        options.onUsage?.({
+          promptTokens: chunk.usage.prompt_tokens,
+          completionTokens: chunk.usage.completion_tokens,
+        });
+      }
+    }
+  }
+}
+
+// Client formats the TTS API can send as they are; WebM still goes
+// through ffmpeg, since OpenAI's Opus comes in an Ogg container
+const SPEECH_FORMATS: Partial<Record<OutputFormat, "mp3" | "aac">> = {
+  mp3: "mp3",
+  aac: "aac",
+};
+
+export class OpenAISpeechSynthesizer implements SpeechSynthesizer {
+  constructor(
+    readonly model = "tts-1",
+    private voice = "alloy"
+  ) {}
+
+  async synthesize(
+    text: string,
+    options: SynthesisOptions = {}
+  ): Promise<SynthesizedAudio> {
+    const format = (options.format && SPEECH_FORMATS[options.format]) ?? "mp3";
+    const ttsResponse = await getClient().audio.speech.create(
+      {
+        model: this.model,
+        voice: options.voice ?? this.voice,
+        input: text,
+        response_format: format,
+      },
+      { signal: options.signal }
+    );
+
+    return {
+      data: Buffer.from(await ttsResponse.arrayBuffer()),
+      format,
+    };
+  }
+}
+
+export class OpenAIImageGenerator implements ImageGenerator {
+  constructor(readonly model = "gpt-image-1") {}
+
+  async generate(prompt: string, options: RequestOptions = {}): Promise<GeneratedImage> {
+    // Low quality keeps generation within the time it takes to voice the
+    // story; it is plenty for a picture beside the text
+    const response = await getClient().images.generate(
+      {
+        model: this.model,
+        prompt,
+        size: "1024x1024",
+        quality: "low",
+        output_format: "webp",
+      },
+      { signal: options.signal }
+    );
+
+    const image = response.data?.[0]?.b64_json;
+    if (!image) throw new Error("Image generation returned no image");
+
+    return { data: Buffer.from(image, "base64"), format: "webp" };
+  }
+}
+
+export class OpenAIModerator implements ContentModerator {
+  constructor(private model = "omni-moderation-latest") {}
+
+  async moderate(
+    text: string,
+    options: RequestOptions = {}
+  ): Promise<ModerationResult> {
+    const moderation = await getClient().moderations.create(
+      {
+        model: this.model,
+        input: text,
+      },
+      { signal: options.signal }
+    );
+
+    const result = moderation.results[0];
+    if (!result) return { flagged: false, categories: [] };
+
+    return {
+      flagged: result.flagged,
+      categories: Object.entries(result.categories)
+        .filter(([, flagged]) => flagged)
+        .map(([category]) => category),
+    };
+  }
+}
@@ -0,0 +1,320 @@
+import OpenAI from "openai";
+import * as Sentry from "@sentry/nextjs";
+import {
+  AudioInput,
+  ContentModerator,
+  GeneratedImage,
+  GenerationOptions,
+  ImageGenerator,
+  ModerationResult,
+  RequestOptions,
+  SpeechSynthesizer,
+  StoryGenerator,
+  StoryMessage,
+  SynthesisOptions,
+  SynthesizedAudio,
+  Transcriber,
+  TranscriptionOptions,
+} from "./types";
+
+// Timeout, retry and fallback policy for each pipeline stage. Every
+// attempt gets its own timeout; retryable failures are retried with
+// exponential backoff and full jitter; when a provider is out of retries
+// the next one in the stage's list (a fallback model) takes over. The
+// `model` getters name the primary model; each call reports the one that
+// answered through `onModel`.
+
+export type Stage = "transcribe" | "generate" | "synthesize" | "moderate" | "illustrate";
+
+export interface StagePolicy {
+  // Per attempt. For streamed generation this bounds the wait for the
+  // first delta; after that the caller's signal governs the stream.
+  timeoutMs: number;
+  // Retries per provider, on top of the first attempt
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_TIMEOUTS: Record<Stage, number> = {
+  transcribe: 15_000,
+  generate: 30_000,
+  synthesize: 20_000,
+  moderate: 10_000,
+  illustrate: 30_000,
+};
+
+const TIMEOUT_VARIABLES: Record<Stage, string> = {
+  transcribe: "STT_TIMEOUT_MS",
+  generate: "LLM_TIMEOUT_MS",
+  synthesize: "TTS_TIMEOUT_MS",
+  moderate: "MODERATION_TIMEOUT_MS",
+  illustrate: "IMAGE_TIMEOUT_MS",
+};
+
+export function stagePolicy(stage: Stage): StagePolicy {
+  const retries = Number(process.env.UPSTREAM_RETRIES);
+  return {
+    timeoutMs: Number(process.env[TIMEOUT_VARIABLES[stage]]) || DEFAULT_TIMEOUTS[stage],
+    retries: Number.isInteger(retries) && retries >= 0 ? retries : 2,
+    baseDelayMs: 300,
+    maxDelayMs: 4_000,
+  };
+}
+
+// Thrown once every provider for a stage has failed. The route reports
+// `stage` to Sentry and maps the error to UPSTREAM_TIMEOUT/UPSTREAM_ERROR.
+export class UpstreamError extends Error {
+  constructor(
+    public stage: Stage,
+    public timedOut: boolean,
+    public cause: unknown
+  ) {
+    super(`${stage} failed${timedOut ? " (timed out)" : ""}`);
+    this.name = "UpstreamError";
+  }
+}
+
+class StageTimeoutError extends Error {
+  constructor(stage: Stage, timeoutMs: number) {
+    super(`${stage} timed out after ${timeoutMs}ms`);
+    this.name = "StageTimeoutError";
+  }
+}
+
+// Timeouts, connection failures, rate limits and server errors are worth
+// another try; bad requests and auth failures are not.
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof StageTimeoutError) return true;
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status ?? 0;
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+  return false;
+}
+
+function backoffDelay(policy: StagePolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * ceiling;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(done, ms);
+    function done() {
+      signal?.removeEventListener("abort", abort);
+      resolve();
+    }
+    function abort() {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    }
+    signal?.addEventListener("abort", abort, { once: true });
+  });
+}
+
+// Runs `call` against each provider in turn until one succeeds, and tells
+// `onModel` which one did. The caller's signal is honoured throughout:
+// once it aborts, its abort error is rethrown as-is rather than retried.
+async function runStage<P extends { readonly model: string } | ContentModerator, T>(
+  stage: Stage,
+  policy: StagePolicy,
+  providers: P[],
+  { signal, onModel }: RequestOptions,
+  call: (provider: P, signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  let lastError: unknown = null;
+  let timedOut = false;
+
+  for (const [index, provider] of providers.entries()) {
+    if (index > 0) {
+      Sentry.addBreadcrumb({
+        category: "voice-api",
+        message: `${stage}: falling back to provider ${index + 1} of ${providers.length}`,
+        level: "warning",
+      });
+    }
+
+    for (let attempt = 0; attempt <= policy.retries; attempt++) {
+      if (attempt > 0) {
+        Sentry.addBreadcrumb({
+          category: "voice-api",
+          message: `${stage}: retry ${attempt} of ${policy.retries}`,
+          level: "info",
+        });
+        await sleep(backoffDelay(policy, attempt - 1), signal);
+      }
+
+      const timeout = AbortSignal.timeout(policy.timeoutMs);
+      const attemptSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+      try {
+        const result = await call(provider, attemptSignal);
+        if ("model" in provider) onModel?.(provider.model);
+        return result;
+      } catch (error) {
+        if (signal?.aborted) throw error;
+
+        lastError = timeout.aborted ? new StageTimeoutError(stage, policy.timeoutMs) : error;
+        timedOut = timeout.aborted;
+        if (!isRetryable(lastError)) break;
+      }
+    }
+  }
+
+  throw new UpstreamError(stage, timedOut, lastError);
+}
+
+export class ResilientTranscriber implements Transcriber {
+  constructor(
+    private transcribers: Transcriber[],
+    private policy = stagePolicy("transcribe")
+  ) {}
+
+  get model() {
+    return this.transcribers[0].model;
+  }
+
+  transcribe(audio: AudioInput, options: TranscriptionOptions = {}): Promise<string> {
+    return runStage(
+      "transcribe",
+      this.policy,
+      this.transcribers,
+      options,
+      (transcriber, signal) => transcriber.transcribe(audio, { ...options, signal })
+    );
+  }
+}
+
+export class ResilientStoryGenerator implements StoryGenerator {
+  constructor(
+    private generators: StoryGenerator[],
+    private policy = stagePolicy("generate")
+  ) {}
+
+  get model() {
+    return this.generators[0].model;
+  }
+
+  generate(messages: StoryMessage[], options: GenerationOptions = {}): Promise<string> {
+    return runStage(
+      "generate",
+      this.policy,
+      this.generators,
+      options,
+      (generator, signal) => generator.generate(messages, { ...options, signal })
+    );
+  }
+
+  // Only the wait for the first delta can be retried: once text has been
+  // passed on, a failure ends the stream. A consumer that stops early
+  // closes the upstream stream, so it stops generating billed tokens.
+  async *stream(messages: StoryMessage[], options: GenerationOptions = {}): AsyncIterable<string> {
+    const { iterator, first, controller, release } = await runStage(
+      "generate",
+      this.policy,
+      this.generators,
+      options,
+      async (generator, signal) => {
+        // The attempt signal's timeout must not cut the stream off later,
+        // so the stream gets its own controller: it follows the caller
+        // throughout, and the timeout only until the first delta arrives.
+        const controller = new AbortController();
+        const follow = () => controller.abort(signal.reason);
+        signal.addEventListener("abort", follow, { once: true });
+        const caller = options.signal;
+        const followCaller = () => controller.abort(caller?.reason);
+        caller?.addEventListener("abort", followCaller, { once: true });
+        const release = () => caller?.removeEventListener("abort", followCaller);
+
+        const iterator = generator
+          .stream(messages, { ...options, signal: controller.signal })
+          [Symbol.asyncIterator]();
+        try {
+          return { iterator, first: await iterator.next(), controller, release };
+        } catch (error) {
+          release();
+          throw error;
+        } finally {
+          signal.removeEventListener("abort", follow);
+        }
+      }
+    );
+
+    try {
+      if (first.done) return;
+      yield first.value;
+
+      while (true) {
+        const next = await iterator.next();
+        if (next.done) return;
+        yield next.value;
+      }
+    } finally {
+      release();
+      await iterator.return?.();
+      controller.abort();
+    }
+  }
+}
+
+export class ResilientSpeechSynthesizer implements SpeechSynthesizer {
+  constructor(
+    private synthesizers: SpeechSynthesizer[],
+    private policy = stagePolicy("synthesize")
+  ) {}
+
+  get model() {
+    return this.synthesizers[0].model;
+  }
+
+  synthesize(text: string, options: SynthesisOptions = {}): Promise<SynthesizedAudio> {
+    return runStage(
+      "synthesize",
+      this.policy,
+      this.synthesizers,
+      options,
+      (synthesizer, signal) => synthesizer.synthesize(text, { ...options, signal })
+    );
+  }
+}
+
+export class ResilientModerator implements ContentModerator {
+  constructor(
+    private moderators: ContentModerator[],
+    private policy = stagePolicy("moderate")
+  ) {}
+
+  moderate(text: string, options: RequestOptions = {}): Promise<ModerationResult> {
+    return runStage(
+      "moderate",
+      this.policy,
+      this.moderators,
+      options,
+      (moderator, signal) => moderator.moderate(text, { ...options, signal })
+    );
+  }
+}
+
+export class ResilientImageGenerator implements ImageGenerator {
+  constructor(
+    private generators: ImageGenerator[],
+    private policy = stagePolicy("illustrate")
+  ) {}
+
+  get model() {
+    return this.generators[0].model;
+  }
+
+  generate(prompt: string, options: RequestOptions = {}): Promise<GeneratedImage> {
+    return runStage(
+      "illustrate",
+      this.policy,
+      this.generators,
+      options,
+      (generator, signal) => generator.generate(prompt, { ...options, signal })
+    );
+  }
+}
@@ -0,0 +1,103 @@
+import type { OutputFormat } from "@/lib/audio-formats";
+
+// Stage interfaces for the voice pipeline. Each vendor (or local stand-in)
+// implements these so the route never talks to a specific SDK directly.
+
+export interface StoryMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface AudioInput {
+  data: Buffer;
+  filename: string;
+  mimeType: string;
+}
+
+export interface SynthesizedAudio {
+  data: Buffer;
+  // File extension of the encoded audio, e.g. "mp3" or "wav"
+  format: string;
+  // Served from the response cache rather than synthesized
+  cached?: boolean;
+}
+
+// Lets the route cancel upstream calls when the client goes away
+export interface RequestOptions {
+  signal?: AbortSignal;
+  // Called with the model that answered, which is a fallback when the
+  // primary one failed
+  onModel?: (model: string) => void;
+}
+
+export interface TranscriptionOptions extends RequestOptions {
+  // ISO 639-1 code of the spoken language; detected when omitted
+  language?: string;
+}
+
+export interface Transcriber {
+  readonly model: string;
+  transcribe(audio: AudioInput, options?: TranscriptionOptions): Promise<string>;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface GenerationOptions extends RequestOptions {
+  temperature?: number;
+  maxTokens?: number;
+  // Called with the token counts once the provider reports them
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+export interface StoryGenerator {
+  readonly model: string;
+  generate(messages: StoryMessage[], options?: GenerationOptions): Promise<string>;
+  // Yields text deltas as the story is produced
+  stream(messages: StoryMessage[], options?: GenerationOptions): AsyncIterable<string>;
+}
+
+export interface SynthesisOptions extends RequestOptions {
+  // Provider voice name; implementations fall back to their default voice
+  // when it is omitted
+  voice?: string;
+  // Format the client wants; providers that can't produce it send their own
+  format?: OutputFormat;
+}
+
+export interface SpeechSynthesizer {
+  // Primary model name; `onModel` reports the one that answered
+  readonly model: string;
+  synthesize(text: string, options?: SynthesisOptions): Promise<SynthesizedAudio>;
+}
+
+export interface GeneratedImage {
+  data: Buffer;
+  // File extension of the encoded image, e.g. "webp" or "svg"
+  format: string;
+}
+
+export interface ImageGenerator {
+  readonly model: string;
+  generate(prompt: string, options?: RequestOptions): Promise<GeneratedImage>;
+}
+
+export interface ModerationResult {
+  flagged: boolean;
+  categories: string[];
+}
+
+export interface ContentModerator {
+  moderate(text: string, options?: RequestOptions): Promise<ModerationResult>;
+}
+
+export interface VoiceProviders {
+  transcriber: Transcriber;
+  generator: StoryGenerator;
+  synthesizer: SpeechSynthesizer;
+  moderator: ContentModerator;
+  // Null when illustrations are turned off
+  illustrator: ImageGenerator | null;
+}
@@ -0,0 +1,89 @@
+// Per-user daily usage quotas: how many stories a caller can request and
+// how many seconds of story audio they can receive per UTC day. Callers are
+// identified by the same key as the rate limiter.
+
+export interface Usage {
+  stories: number;
+  audioSeconds: number;
+}
+
+export interface QuotaLimits {
+  stories: number;
+  audioSeconds: number;
+}
+
+export interface QuotaCheck {
+  allowed: boolean;
+  usage: Usage;
+  // Seconds until the quota resets (0 when allowed)
+  retryAfter: number;
+}
+
+// Storage for daily usage counters. Pluggable like RateLimitStore so
+// several server instances can share one.
+export interface QuotaStore {
+  get(key: string, day: string): Promise<Usage>;
+  add(key: string, day: string, usage: Usage): Promise<void>;
+}
+
+export class MemoryQuotaStore implements QuotaStore {
+  private usage = new Map<string, Usage>();
+  private day = "";
+
+  async get(key: string, day: string) {
+    return this.usage.get(`${day}:${key}`) ?? { stories: 0, audioSeconds: 0 };
+  }
+
+  async add(key: string, day: string, usage: Usage) {
+    // Yesterday's counters are never read again
+    if (day !== this.day) {
+      this.usage.clear();
+      this.day = day;
+    }
+
+    const current = await this.get(key, day);
+    this.usage.set(`${day}:${key}`, {
+      stories: current.stories + usage.stories,
+      audioSeconds: current.audioSeconds + usage.audioSeconds,
+    });
+  }
+}
+
+const utcDay = (now: Date) => now.toISOString().slice(0, 10);
+
+function secondsUntilMidnight(now: Date): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+export class QuotaTracker {
+  constructor(
+    private store: QuotaStore,
+    private limits: QuotaLimits
+  ) {}
+
+  async check(key: string): Promise<QuotaCheck> {
+    const now = new Date();
+    const usage = await this.store.get(key, utcDay(now));
+    const allowed =
+      usage.stories < this.limits.stories && usage.audioSeconds < this.limits.audioSeconds;
+
+    return { allowed, usage, retryAfter: allowed ? 0 : secondsUntilMidnight(now) };
+  }
+
+  record(key: string, audioSeconds: number): Promise<void> {
+    return this.store.add(key, utcDay(new Date()), { stories: 1, audioSeconds });
+  }
+}
+
+let tracker: QuotaTracker | null = null;
+
+export function getQuotaTracker(): QuotaTracker {
+  if (!tracker) {
+    tracker = new QuotaTracker(new MemoryQuotaStore(), {
+      stories: Number(process.env.QUOTA_DAILY_STORIES) || 50,
+      audioSeconds: Number(process.env.QUOTA_DAILY_AUDIO_SECONDS) || 1800,
+    });
+  }
+  return tracker;
+}
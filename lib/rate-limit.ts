@@ -0,0 +1,135 @@
+import { NextRequest } from "next/server";
+
+// Token-bucket rate limiting for the paid story pipeline, sign-ups and
+// magic links. Buckets are keyed by something the caller can't make up:
+// the signed-in account, an API key that was checked, or otherwise the
+// client IP seen by our proxy.
+
+export interface BucketConfig {
+  // Most requests that can be made in a burst
+  capacity: number;
+  // Tokens added back per second
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // Seconds until the next token is available (0 when allowed)
+  retryAfter: number;
+}
+
+// Storage for bucket state. `consume` must be atomic per key, so a shared
+// implementation (e.g. Redis) should run it as a single script/transaction.
+export interface RateLimitStore {
+  consume(key: string, config: BucketConfig, cost: number, now: number): Promise<RateLimitResult>;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private buckets = new Map<string, Bucket>();
+
+  constructor(private maxKeys = 10000) {}
+
+  async consume(key: string, config: BucketConfig, cost: number, now: number) {
+    const bucket = this.buckets.get(key) ?? { tokens: config.capacity, updatedAt: now };
+    const elapsed = Math.max(0, now - bucket.updatedAt) / 1000;
+    bucket.tokens = Math.min(config.capacity, bucket.tokens + elapsed * config.refillPerSecond);
+    bucket.updatedAt = now;
+
+    let result: RateLimitResult;
+    if (bucket.tokens >= cost) {
+      bucket.tokens -= cost;
+      result = { allowed: true, remaining: Math.floor(bucket.tokens), retryAfter: 0 };
+    } else {
+      const missing = cost - bucket.tokens;
+      result = {
+        allowed: false,
+        remaining: 0,
+        retryAfter: Math.ceil(missing / config.refillPerSecond),
+      };
+    }
+
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > this.maxKeys) this.prune(config, now);
+    return result;
+  }
+
+  // Buckets that have refilled completely carry no state worth keeping
+  private prune(config: BucketConfig, now: number) {
+    for (const [key, bucket] of this.buckets) {
+      const elapsed = (now - bucket.updatedAt) / 1000;
+      if (bucket.tokens + elapsed * config.refillPerSecond >= config.capacity) {
+        this.buckets.delete(key);
+      }
+    }
+  }
+}
+
+export class RateLimiter {
+  constructor(
+    private store: RateLimitStore,
+    private config: BucketConfig
+  ) {}
+
+  consume(key: string, cost = 1): Promise<RateLimitResult> {
+    return this.store.consume(key, this.config, cost, Date.now());
+  }
+}
+
+// Identifies an anonymous caller by IP. Clients can put anything in
+// X-Forwarded-For, so only the entry our proxy appended (the last one) is
+// used, or the header named by TRUSTED_IP_HEADER when the proxy sets its
+// own (e.g. cf-connecting-ip).
+export function clientKey(request: NextRequest): string {
+  const trustedHeader = process.env.TRUSTED_IP_HEADER;
+  const ip = trustedHeader
+    ? request.headers.get(trustedHeader)?.trim()
+    : request.headers.get("x-forwarded-for")?.split(",").at(-1)?.trim() ||
+      request.headers.get("x-real-ip")?.trim();
+  return `ip:${ip || "unknown"}`;
+}
+
+let limiter: RateLimiter | null = null;
+let authLimiter: RateLimiter | null = null;
+
+// RATE_LIMIT_BURST requests at once, refilling at RATE_LIMIT_PER_MINUTE
+export function getRateLimiter(): RateLimiter {
+  if (!limiter) {
+    limiter = new RateLimiter(new MemoryRateLimitStore(), {
+      capacity: Number(process.env.RATE_LIMIT_BURST) || 5,
+      refillPerSecond: (Number(process.env.RATE_LIMIT_PER_MINUTE) || 6) / 60,
+    });
+  }
+  return limiter;
+}
+
+// Sign-ins, sign-ups and magic-link requests hash passwords, send email and
+// create accounts, so they get their own, slower bucket:
+// AUTH_RATE_LIMIT_BURST at once, refilling at AUTH_RATE_LIMIT_PER_HOUR
+export function getAuthRateLimiter(): RateLimiter {
+  if (!authLimiter) {
+    authLimiter = new RateLimiter(new MemoryRateLimitStore(), {
+      capacity: Number(process.env.AUTH_RATE_LIMIT_BURST) || 5,
+      refillPerSecond: (Number(process.env.AUTH_RATE_LIMIT_PER_HOUR) || 10) / 3600,
+    });
+  }
+  return authLimiter;
+}
+
+// Counts an attempt against both the client IP and the email address it
+// names, so neither many addresses from one client nor many clients
+// aiming at one account get through. Returns the first bucket that ran out.
+export async function consumeAuthAttempt(
+  request: NextRequest,
+  email: string | null
+): Promise<RateLimitResult> {
+  const limiter = getAuthRateLimiter();
+  const byIp = await limiter.consume(`auth:${clientKey(request)}`);
+  if (!byIp.allowed || !email) return byIp;
+  return limiter.consume(`auth:email:${email}`);
+}
@@ -0,0 +1,87 @@
+import type { StorySegment } from "@/lib/story-script";
+
+// Timing for the read-along view. TTS providers don't report word
+// timings, so each segment's audio length is spread over its words in
+// proportion to their length, with extra room for the pauses a voice takes
+// at commas and full stops. Segments with no known length are estimated
+// from a typical storytelling pace.
+
+// A script segment as sent to the client, with the length of its audio
+// when the server could read it
+export interface ReadAlongSegment extends StorySegment {
+  duration?: number;
+}
+
+export interface TimedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TimedSentence {
+  start: number;
+  end: number;
+  words: TimedWord[];
+}
+
+export interface TimedSegment {
+  speaker: string;
+  start: number;
+  end: number;
+  sentences: TimedSentence[];
+}
+
+// Children's audiobooks are read at roughly 2.5 words a second
+const WORDS_PER_SECOND = 2.5;
+
+// Extra weight, in letters, for the pause after a word
+const SENTENCE_PAUSE = 6;
+const CLAUSE_PAUSE = 3;
+
+function splitSentenceText(text: string): string[] {
+  return text.split(/(?<=[.!?…]+["'”’)]*)\s+/).filter((sentence) => sentence.trim());
+}
+
+function wordWeight(word: string): number {
+  const letters = word.replace(/[^\p{L}\p{N}]/gu, "").length || 1;
+  if (/[.!?…]["'”’)]*$/.test(word)) return letters + SENTENCE_PAUSE;
+  if (/[,;:—-]["'”’)]*$/.test(word)) return letters + CLAUSE_PAUSE;
+  return letters;
+}
+
+export function estimateDuration(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length / WORDS_PER_SECOND;
+}
+
+// Lays one segment's words out over [start, start + duration)
+function timeSegment(segment: ReadAlongSegment, start: number, duration: number): TimedSegment {
+  const sentenceWords = splitSentenceText(segment.text).map((sentence) =>
+    sentence.split(/\s+/).filter(Boolean)
+  );
+  const totalWeight = sentenceWords.flat().reduce((sum, word) => sum + wordWeight(word), 0);
+  const secondsPerWeight = totalWeight > 0 ? duration / totalWeight : 0;
+
+  let time = start;
+  const sentences = sentenceWords.map((words) => {
+    const sentenceStart = time;
+    const timed = words.map((word) => {
+      const wordStart = time;
+      time += wordWeight(word) * secondsPerWeight;
+      return { text: word, start: wordStart, end: time };
+    });
+    return { start: sentenceStart, end: time, words: timed };
+  });
+
+  return { speaker: segment.speaker, start, end: start + duration, sentences };
+}
+
+// Lays segments out back to back from `offset` seconds
+export function timeSegments(segments: ReadAlongSegment[], offset = 0): TimedSegment[] {
+  let start = offset;
+  return segments.map((segment) => {
+    const duration = segment.duration ?? estimateDuration(segment.text);
+    const timed = timeSegment(segment, start, duration);
+    start += duration;
+    return timed;
+  });
+}
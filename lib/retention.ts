@@ -0,0 +1,58 @@
+import * as Sentry from "@sentry/nextjs";
+import { getStoryStore } from "@/lib/story-store";
+import { getIllustrationStore } from "@/lib/illustration-store";
+import { getResponseCache } from "@/lib/cache";
+import type { SessionStore } from "@/lib/session-store";
+
+// How long children's data is kept: saved stories with their recordings,
+// story sessions, illustrations and cached responses (whose keys and
+// scripts carry a child's name and preferences) are deleted once they are
+// older than DATA_RETENTION_DAYS. Set it to "off" to keep them until a
+// parent deletes them. Cached responses can expire sooner, after
+// CACHE_TTL_SECONDS.
+
+const DEFAULT_RETENTION_DAYS = 30;
+
+// Sweeps are cheap but touch every file, so they run at most this often
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+// Days data is kept, or null when it is kept indefinitely
+export function retentionDays(): number | null {
+  const setting = process.env.DATA_RETENTION_DAYS;
+  if (setting === "off") return null;
+  return Number(setting) > 0 ? Number(setting) : DEFAULT_RETENTION_DAYS;
+}
+
+// Stores are swept from any route; sessions only from the one that owns them
+const lastSweepAt = { stores: 0, sessions: 0 };
+
+function sweepDue(kind: keyof typeof lastSweepAt, now: number): boolean {
+  if (now - lastSweepAt[kind] < SWEEP_INTERVAL_MS) return false;
+  lastSweepAt[kind] = now;
+  return true;
+}
+
+// Deletes expired data, unless a sweep ran recently. Failures are reported
+// and retried on the next sweep; they never fail the caller.
+export async function enforceRetention(sessions?: SessionStore): Promise<void> {
+  const days = retentionDays();
+  if (days === null) return;
+
+  const now = Date.now();
+  const cutoff = new Date(now - days * 24 * 60 * 60 * 1000);
+  try {
+    await Promise.all([
+      sweepDue("stores", now) &&
+        Promise.all([
+          getStoryStore().purge(cutoff),
+          getIllustrationStore().purge(cutoff),
+          getResponseCache()?.purge(cutoff),
+        ]),
+      sessions && sweepDue("sessions", now) && sessions.purge(cutoff),
+    ]);
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "retention" },
+    });
+  }
+}
@@ -0,0 +1,95 @@
+import type { ContentModerator, RequestOptions } from "@/lib/providers";
+import blocklist from "./blocklist.json";
+
+// Explicit safety checks on the child's request and on the generated story.
+// The persona prompts already ask for kid-safe stories; this layer catches
+// what slips through, using the team blocklist plus the moderation provider.
+
+// What to do when content is flagged:
+// - block: refuse, and let the client show a "try a different story" state
+// - rewrite: regenerate once with gentler instructions, then block if still unsafe
+// - substitute: play a canned safe story instead
+export type ModerationPolicy = "block" | "rewrite" | "substitute";
+
+export function getModerationPolicy(): ModerationPolicy {
+  const policy = process.env.MODERATION_POLICY;
+  return policy === "block" || policy === "substitute" ? policy : "rewrite";
+}
+
+export interface SafetyCheck {
+  allowed: boolean;
+  // Blocklist terms or moderation categories that triggered the check
+  reasons: string[];
+}
+
+export class ContentBlockedError extends Error {
+  constructor(public reasons: string[]) {
+    super("Content blocked by safety check");
+    this.name = "ContentBlockedError";
+  }
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+const blocklistPattern = new RegExp(
+  `\\b(${blocklist.terms.map(escapeRegExp).join("|")})\\b`,
+  "gi"
+);
+
+export function findBlockedTerms(text: string): string[] {
+  const matches = text.match(blocklistPattern) ?? [];
+  return [...new Set(matches.map((match) => match.toLowerCase()))];
+}
+
+// What a check's reasons may say in Sentry: moderation categories as they
+// are, but blocklist matches are the child's own words, so only that the
+// blocklist matched
+export function reportableReasons(reasons: string[]): string[] {
+  return [
+    ...new Set(reasons.map((reason) => (findBlockedTerms(reason).length ? "blocklist" : reason))),
+  ];
+}
+
+export async function checkContent(
+  text: string,
+  moderator: ContentModerator,
+  options?: RequestOptions
+): Promise<SafetyCheck> {
+  // The blocklist is free, so skip the provider call when it already matches
+  const blockedTerms = findBlockedTerms(text);
+  if (blockedTerms.length > 0) {
+    return { allowed: false, reasons: blockedTerms };
+  }
+
+  const moderation = await moderator.moderate(text, options);
+  return { allowed: !moderation.flagged, reasons: moderation.categories };
+}
+
+// Sent to the model in place of a request that failed the input check, so
+// the unsafe wording never reaches generation or session history.
+export const SAFE_REQUEST = "Tell me a happy story about making a new friend.";
+
+export const GENTLE_INSTRUCTIONS =
+  "Keep this story especially gentle and cheerful: no scary, violent, rude or grown-up themes, and no mention of anything unsuitable for young children.";
+
+// Canned stories in script format, used by the substitute policy
+const SAFE_STORIES = [
+  [
+    "[Narrator] In a sunny meadow, a little bunny named Clover found a shiny red button in the grass.",
+    "[Clover] I wonder who this belongs to!",
+    "[Narrator] She hopped all the way to the old oak tree, where a tiny mouse was searching everywhere.",
+    "[Mouse] My button! It's the one from my favorite coat. Thank you, Clover!",
+    "[Narrator] The two new friends shared a blueberry snack and watched the clouds float by. The end.",
+  ].join("\n"),
+  [
+    "[Narrator] High up in the night sky, a small star named Twinkle wanted to shine as brightly as the moon.",
+    "[Twinkle] I'm so little. Does anyone even see me?",
+    "[Narrator] Far below, a sleepy owl looked up and smiled.",
+    "[Owl] I see you every night, Twinkle. You help me find my way home!",
+    "[Narrator] Twinkle glowed with happiness, and shone a little brighter than ever before. The end.",
+  ].join("\n"),
+];
+
+export function pickSafeStory(): string {
+  return SAFE_STORIES[Math.floor(Math.random() * SAFE_STORIES.length)];
+}
@@ -0,0 +1,162 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+
+// Conversation memory for multi-turn story sessions. The route keeps the
+// child's prompts and the generated stories so follow-ups like "what
+// happened to the dragon next?" can continue the same story.
+
+export interface StoryTurn {
+  role: "user" | "assistant";
+  content: string;
+}
+
+export interface SessionStore {
+  get(sessionId: string): Promise<StoryTurn[] | null>;
+  append(sessionId: string, turns: StoryTurn[]): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  // Deletes sessions last used before `cutoff`; returns how many went
+  purge(cutoff: Date): Promise<number>;
+}
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function createSessionId(): string {
+  return randomUUID();
+}
+
+export function isValidSessionId(value: unknown): value is string {
+  return typeof value === "string" && SESSION_ID_PATTERN.test(value);
+}
+
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, { turns: StoryTurn[]; updatedAt: number }>();
+
+  constructor(private maxSessions = 500) {}
+
+  async get(sessionId: string) {
+    return this.sessions.get(sessionId)?.turns ?? null;
+  }
+
+  async append(sessionId: string, turns: StoryTurn[]) {
+    const existing = this.sessions.get(sessionId)?.turns ?? [];
+    // Re-insert so Map order tracks recency and the oldest session is evicted first
+    this.sessions.delete(sessionId);
+    this.sessions.set(sessionId, { turns: [...existing, ...turns], updatedAt: Date.now() });
+
+    if (this.sessions.size > this.maxSessions) {
+      const oldest = this.sessions.keys().next().value;
+      if (oldest) this.sessions.delete(oldest);
+    }
+  }
+
+  async delete(sessionId: string) {
+    this.sessions.delete(sessionId);
+  }
+
+  async purge(cutoff: Date) {
+    let purged = 0;
+    for (const [sessionId, { updatedAt }] of this.sessions) {
+      if (updatedAt < cutoff.getTime()) {
+        this.sessions.delete(sessionId);
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+// Stores one JSON file per session, so history survives server restarts.
+export class FileSessionStore implements SessionStore {
+  constructor(private directory: string) {}
+
+  private filePath(sessionId: string) {
+    if (!isValidSessionId(sessionId)) {
+      throw new Error("Invalid session id");
+    }
+    return path.join(this.directory, `${sessionId}.json`);
+  }
+
+  async get(sessionId: string) {
+    try {
+      const data = await fs.readFile(this.filePath(sessionId), "utf8");
+      return JSON.parse(data) as StoryTurn[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async append(sessionId: string, turns: StoryTurn[]) {
+    const existing = (await this.get(sessionId)) ?? [];
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(
+      this.filePath(sessionId),
+      JSON.stringify([...existing, ...turns]),
+      "utf8"
+    );
+  }
+
+  async delete(sessionId: string) {
+    await fs.rm(this.filePath(sessionId), { force: true });
+  }
+
+  async purge(cutoff: Date) {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return 0;
+      throw error;
+    }
+
+    let purged = 0;
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const filePath = path.join(this.directory, file);
+      const { mtime } = await fs.stat(filePath);
+      if (mtime < cutoff) {
+        await fs.rm(filePath, { force: true });
+        purged++;
+      }
+    }
+    return purged;
+  }
+}
+
+// SESSION_STORE=file selects the file-backed store; anything else keeps
+// history in memory for the lifetime of the server process.
+export function createSessionStore(): SessionStore {
+  if (process.env.SESSION_STORE === "file") {
+    return new FileSessionStore(
+      process.env.SESSION_DIR || path.join(process.cwd(), ".data", "sessions")
+    );
+  }
+  return new MemorySessionStore();
+}
+
+// Rough token estimate (~4 characters per token for English text).
+// Good enough for budgeting history without pulling in a tokenizer.
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Keeps the most recent turns that fit within the token budget. Turns are
+// dropped from the front in user/assistant pairs so the history never
+// starts with an orphaned story reply.
+export function trimHistory(turns: StoryTurn[], maxTokens: number): StoryTurn[] {
+  let total = 0;
+  let start = turns.length;
+
+  while (start > 0) {
+    const cost = estimateTokens(turns[start - 1].content);
+    if (total + cost > maxTokens) break;
+    total += cost;
+    start--;
+  }
+
+  while (start < turns.length && turns[start].role !== "user") {
+    start++;
+  }
+
+  return turns.slice(start);
+}
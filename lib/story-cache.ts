@@ -0,0 +1,68 @@
+import { FileCache, cacheKey, getResponseCache } from "@/lib/cache";
+
+// Cached story scripts for repeated requests ("tell me a story about a
+// shark", again). Each key keeps up to STORY_CACHE_VARIANTS scripts: until
+// that many exist, requests generate a fresh one and add it; after that a
+// random cached variant is served, so repeats don't sound identical.
+
+export const STORY_CACHE_VARIANTS = Math.max(1, Number(process.env.STORY_CACHE_VARIANTS) || 3);
+
+// Folds case, punctuation and spacing so "Tell me a story about a shark!"
+// and "tell me a story about a shark" share an entry
+export function normalizeTranscript(transcript: string): string {
+  return transcript
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export class StoryCache {
+  constructor(
+    private cache: FileCache,
+    private variants = STORY_CACHE_VARIANTS
+  ) {}
+
+  // `context` covers everything else that shapes the story besides the
+  // transcript, e.g. the persona and child profile
+  private key(transcript: string, context: string[]) {
+    return cacheKey("story", normalizeTranscript(transcript), ...context);
+  }
+
+  private async read(key: string): Promise<string[]> {
+    const data = await this.cache.get(key);
+    if (!data) return [];
+    try {
+      const scripts = JSON.parse(data.toString("utf8"));
+      return Array.isArray(scripts) ? scripts : [];
+    } catch {
+      return [];
+    }
+  }
+
+  // A cached script to serve, or null when a new variant should be made
+  async pick(transcript: string, context: string[]): Promise<string | null> {
+    const scripts = await this.read(this.key(transcript, context));
+    if (scripts.length < this.variants) return null;
+    return scripts[Math.floor(Math.random() * scripts.length)];
+  }
+
+  async add(transcript: string, context: string[], script: string): Promise<void> {
+    const key = this.key(transcript, context);
+    const scripts = await this.read(key);
+    if (scripts.includes(script) || scripts.length >= this.variants) return;
+
+    scripts.push(script);
+    await this.cache.set(key, Buffer.from(JSON.stringify(scripts), "utf8"));
+  }
+}
+
+let storyCache: StoryCache | null | undefined;
+
+export function getStoryCache(): StoryCache | null {
+  if (storyCache === undefined) {
+    const cache = getResponseCache();
+    storyCache = cache ? new StoryCache(cache) : null;
+  }
+  return storyCache;
+}
@@ -0,0 +1,741 @@
+import * as Sentry from "@sentry/nextjs";
+import { STREAM_CONTENT_TYPE, VoiceStreamEvent, createEventStream } from "@/lib/voice-stream";
+import {
+  StoryTurn,
+  createSessionId,
+  createSessionStore,
+  isValidSessionId,
+  trimHistory,
+} from "@/lib/session-store";
+import {
+  SpeechSynthesizer,
+  StoryMessage,
+  SynthesizedAudio,
+  getProviders,
+} from "@/lib/providers";
+import {
+  SCRIPT_INSTRUCTIONS,
+  ScriptStreamParser,
+  StorySegment,
+  formatScript,
+  formatSegment,
+  parseScript,
+} from "@/lib/story-script";
+import { VoiceCaster } from "@/lib/voice-casting";
+import { concatAudio } from "@/lib/audio";
+import { getStoryStore } from "@/lib/story-store";
+import { getStoryCache } from "@/lib/story-cache";
+import { MAX_UPLOAD_SECONDS, Recording, StorySource } from "@/lib/voice-request";
+import { encodeSpeech, normalizeUpload } from "@/lib/audio-processing";
+import type { OutputFormat } from "@/lib/audio-formats";
+import { audioDuration } from "@/lib/audio-probe";
+import { VoiceError } from "@/lib/errors";
+import { failedStage, toVoiceError } from "@/lib/error-response";
+import { getQuotaTracker } from "@/lib/quota";
+import type { ReadAlongSegment } from "@/lib/read-along";
+import { illustrateStory } from "@/lib/illustration";
+import { RequestUsage, measureStage, recordRequest, startStage } from "@/lib/metrics";
+import { enforceRetention } from "@/lib/retention";
+import { ChildProfile, profilePrompt, storyWordLimit } from "@/lib/accounts/profiles";
+import {
+  LanguageCode,
+  detectLanguage,
+  getLanguage,
+  isLanguageCode,
+  languagePrompt,
+} from "@/lib/languages";
+import {
+  DEFAULT_PERSONA_ID,
+  Persona,
+  getPersona,
+  personaPrompt,
+} from "@/lib/personas";
+import {
+  ContentBlockedError,
+  GENTLE_INSTRUCTIONS,
+  SAFE_REQUEST,
+  checkContent,
+  getModerationPolicy,
+  pickSafeStory,
+  reportableReasons,
+} from "@/lib/safety/moderation";
+
+// The story pipeline behind /api/voice and /api/v1/stories: a recording
+// is decoded and transcribed (typed text skips both), the request is
+// safety-checked, then a story is generated, checked again, voiced and
+// illustrated. Routes read and authorize the
+// request, then hand over to prepareStory and tellStory (or streamStory).
+
+const sessions = createSessionStore();
+
+// Token budget for prior turns sent back to the model with each request
+const HISTORY_TOKEN_BUDGET = Number(process.env.SESSION_HISTORY_TOKENS) || 2000;
+
+export interface StoryRequest {
+  // Rate limit and quota key of the caller
+  caller: string;
+  // The signed-in parent, whose history the story is saved to
+  accountId?: string;
+  sessionId: string;
+  history: StoryTurn[];
+  persona: Persona;
+  // The signed-in child the story is told to, if one was picked
+  profile?: ChildProfile;
+  // Language the child spoke, and the one the story is told in
+  inputLanguage: LanguageCode;
+  language: LanguageCode;
+  // What the child said or typed
+  transcript: string;
+  // What the model is asked for: the transcript, or SAFE_REQUEST when the
+  // transcript failed the input safety check
+  prompt: string;
+  gentle: boolean;
+  // Pre-written story used instead of generation (substitute policy)
+  cannedScript?: string;
+  // What else besides the transcript shapes the story, when it may be
+  // served from or added to the story cache
+  cacheContext?: string[];
+  // Previously generated and checked story served from the cache
+  cachedScript?: string;
+  // Format speech is sent in, or null for the provider's own
+  outputFormat: OutputFormat | null;
+  // Tokens, audio and cost, for the metrics
+  usage: RequestUsage;
+  // Aborted when the client disconnects or barges in with a new request
+  signal: AbortSignal;
+}
+
+function buildMessages(story: StoryRequest, gentle = story.gentle): StoryMessage[] {
+  const { persona, profile } = story;
+  const instructions = [personaPrompt(persona, storyWordLimit(profile, persona.maxStoryWords))];
+  if (profile) instructions.push(profilePrompt(profile));
+  instructions.push(SCRIPT_INSTRUCTIONS, languagePrompt(story.language, story.inputLanguage));
+  if (gentle) instructions.push(GENTLE_INSTRUCTIONS);
+
+  return [
+    { role: "system", content: instructions.join(" ") },
+    ...trimHistory(story.history, HISTORY_TOKEN_BUDGET),
+    { role: "user", content: story.prompt },
+  ];
+}
+
+function contentBlocked(reasons: string[]): VoiceError {
+  Sentry.captureMessage("Story content blocked", {
+    level: "info",
+    tags: { component: "voice-api" },
+    extra: { reasons: reportableReasons(reasons) },
+  });
+
+  return new VoiceError("CONTENT_BLOCKED");
+}
+
+// Generates the story script and checks it before any audio is made.
+// Returns null when the moderation policy says the story must be blocked.
+async function generateSafeScript(story: StoryRequest): Promise<string | null> {
+  if (story.cannedScript) return story.cannedScript;
+  if (story.cachedScript) return story.cachedScript;
+
+  const { generator, moderator } = getProviders();
+  const policy = getModerationPolicy();
+  const generate = (gentle: boolean) =>
+    measureStage("generate", (span) =>
+      generator.generate(buildMessages(story, gentle), {
+        temperature: story.persona.temperature,
+        maxTokens: story.persona.maxTokens,
+        signal: story.signal,
+        onUsage: (tokens) => story.usage.addTokens(tokens, span),
+        onModel: (model) => {
+          story.usage.models.generate = model;
+        },
+      })
+    );
+  const isSafe = async (script: string) =>
+    (
+      await measureStage("moderate", () =>
+        checkContent(formatScript(parseScript(script)), moderator, { signal: story.signal })
+      )
+    ).allowed;
+
+  const script = await generate(story.gentle);
+  if (await isSafe(script)) return script;
+
+  // A fallback story doesn't answer the request, so it isn't cached
+  story.cacheContext = undefined;
+
+  if (policy === "substitute") return pickSafeStory();
+
+  if (policy === "rewrite" && !story.gentle) {
+    const retry = await generate(true);
+    if (await isSafe(retry)) return retry;
+  }
+
+  return null;
+}
+
+// Remembers the turn for follow-up requests, counts it against the
+// caller's daily quota and saves the story to the signed-in parent's
+// history, then clears out data past its retention period. A failed
+// history write never fails the story.
+async function recordStory(
+  story: StoryRequest,
+  script: string,
+  responseText: string,
+  audio: SynthesizedAudio
+) {
+  await sessions.append(story.sessionId, [
+    { role: "user", content: story.prompt },
+    { role: "assistant", content: script },
+  ]);
+
+  await getQuotaTracker().record(
+    story.caller,
+    audioDuration(audio.data, audio.format) ?? 0
+  );
+
+  if (story.cacheContext && !story.cachedScript) {
+    try {
+      await getStoryCache()?.add(story.transcript, story.cacheContext, script);
+    } catch (error) {
+      Sentry.captureException(error, {
+        tags: { component: "voice-api", action: "cache-story" },
+      });
+    }
+  }
+
+  try {
+    // Nobody could ever read back a story without a parent, so stories
+    // told anonymously or through /api/v1 aren't kept
+    if (story.accountId) {
+      await getStoryStore().save(
+        {
+          accountId: story.accountId,
+          profileId: story.profile?.id,
+          sessionId: story.sessionId,
+          personaId: story.persona.id,
+          transcript: story.transcript,
+          story: responseText,
+        },
+        audio
+      );
+    }
+  } catch (error) {
+    Sentry.captureException(error, {
+      tags: { component: "voice-api", action: "save-story" },
+    });
+  }
+
+  await enforceRetention(sessions);
+}
+
+// Voices one segment and counts what was synthesized; audio served from
+// the cache costs nothing
+function synthesizeSegment(
+  segment: StorySegment,
+  voice: string,
+  story: StoryRequest,
+  synthesizer: SpeechSynthesizer
+): Promise<SynthesizedAudio> {
+  return measureStage("synthesize", async (span) => {
+    // Asking for the client's format up front saves transcoding it
+    const speech = await synthesizer.synthesize(segment.text, {
+      voice,
+      format: story.outputFormat ?? undefined,
+      signal: story.signal,
+      onModel: (model) => {
+        story.usage.models.synthesize = model;
+      },
+    });
+    const seconds = segmentDuration(speech) ?? 0;
+    story.usage.outputAudioSeconds += seconds;
+    if (!speech.cached) story.usage.speechCharacters += segment.text.length;
+    span.setAttributes({
+      "voice.characters": segment.text.length,
+      "voice.output_audio_seconds": seconds,
+      "voice.cached": !!speech.cached,
+    });
+    return speech;
+  });
+}
+
+// Voices each script segment with its cast voice, in script order
+function synthesizeScript(
+  segments: StorySegment[],
+  story: StoryRequest,
+  synthesizer: SpeechSynthesizer
+): Promise<SynthesizedAudio[]> {
+  const caster = new VoiceCaster(narratorVoice(story));
+  return Promise.all(
+    segments.map((segment) =>
+      synthesizeSegment(segment, caster.voiceFor(segment.speaker), story, synthesizer)
+    )
+  );
+}
+
+// Speech in the format the client negotiated, if any
+function encodeForClient(speech: SynthesizedAudio, story: StoryRequest): Promise<SynthesizedAudio> {
+  const { outputFormat } = story;
+  if (!outputFormat) return Promise.resolve(speech);
+  return measureStage("encode", () => encodeSpeech(speech, outputFormat, story.signal));
+}
+
+// Segments with the length of their audio, for the read-along view
+function readAlongSegments(
+  segments: StorySegment[],
+  audioParts: SynthesizedAudio[]
+): ReadAlongSegment[] {
+  return segments.map((segment, index) => ({
+    ...segment,
+    duration: segmentDuration(audioParts[index]),
+  }));
+}
+
+function segmentDuration(audio: SynthesizedAudio): number | undefined {
+  return audioDuration(audio.data, audio.format) ?? undefined;
+}
+
+// A narrator voice that suits the story language, or the persona's own
+function narratorVoice(story: StoryRequest): string {
+  return getLanguage(story.language).narratorVoice ?? story.persona.voice;
+}
+
+// X-Cache header value, e.g. "story=HIT, audio=PARTIAL". Streamed responses
+// only report the story, since headers go out before any audio is made.
+function cacheHeader(story: StoryRequest, audioParts?: SynthesizedAudio[]): string {
+  const status = [`story=${story.cachedScript ? "HIT" : "MISS"}`];
+  if (audioParts) {
+    const hits = audioParts.filter((part) => part.cached).length;
+    status.push(
+      `audio=${hits === 0 ? "MISS" : hits === audioParts.length ? "HIT" : "PARTIAL"}`
+    );
+  }
+  return status.join(", ");
+}
+
+// One telling of a streamed story, as far as it got
+interface StreamedTelling {
+  script: string;
+  segments: StorySegment[];
+  audioParts: SynthesizedAudio[];
+  // Whether voicing a segment has failed so far
+  failed: () => boolean;
+  // Settles once every segment is voiced, with the first failure if any
+  voiced: Promise<unknown>;
+}
+
+// Streams a script as it arrives from the model and synthesizes each
+// segment in its speaker's voice, so playback can start before the story
+// ends. Each generated segment is safety-checked before its text or audio
+// is sent. Returns once the script is complete, while its last segments
+// may still be voiced.
+async function streamScript(
+  story: StoryRequest,
+  send: (event: VoiceStreamEvent) => void,
+  { approvedScript, gentle }: { approvedScript?: string; gentle: boolean }
+): Promise<StreamedTelling> {
+  const { generator, synthesizer, moderator } = getProviders();
+  const { persona } = story;
+
+  const generation = approvedScript ? null : startStage("generate");
+  const completion = approvedScript
+    ? [approvedScript]
+    : generator.stream(buildMessages(story, gentle), {
+        temperature: persona.temperature,
+        maxTokens: persona.maxTokens,
+        signal: story.signal,
+        onUsage: (tokens) => story.usage.addTokens(tokens, generation?.span),
+        onModel: (model) => {
+          story.usage.models.generate = model;
+        },
+      });
+
+  const parser = new ScriptStreamParser();
+  const caster = new VoiceCaster(narratorVoice(story));
+  const segments: StorySegment[] = [];
+  const audioParts: SynthesizedAudio[] = [];
+  let script = "";
+  let failure: unknown = null;
+
+  // Synthesis runs one segment at a time so audio events stay in order,
+  // while the completion keeps streaming in the background.
+  let speaking = Promise.resolve();
+  const speak = (segment: StorySegment) => {
+    const index = segments.length;
+    const voice = caster.voiceFor(segment.speaker);
+    segments.push(segment);
+
+    speaking = speaking
+      .then(async () => {
+        if (failure) return;
+
+        if (!approvedScript) {
+          const check = await measureStage("moderate", () =>
+            checkContent(segment.text, moderator, { signal: story.signal })
+          );
+          if (!check.allowed) throw new ContentBlockedError(check.reasons);
+        }
+
+        send({ type: "delta", text: (index > 0 ? " " : "") + formatSegment(segment) });
+        const speech = await synthesizeSegment(segment, voice, story, synthesizer);
+        audioParts[index] = speech;
+        const encoded = await encodeForClient(speech, story);
+        send({
+          type: "audio",
+          index,
+          speaker: segment.speaker,
+          text: segment.text,
+          duration: segmentDuration(speech),
+          audio: encoded.data.toString("base64"),
+          format: encoded.format,
+        });
+      })
+      .catch((error) => {
+        failure ??= error;
+      });
+  };
+
+  try {
+    for await (const delta of completion) {
+      if (failure) break;
+      story.signal.throwIfAborted();
+
+      script += delta;
+      parser.push(delta).forEach(speak);
+    }
+  } catch (error) {
+    generation?.end(error);
+    throw error;
+  }
+  generation?.end();
+
+  parser.end().forEach(speak);
+
+  return {
+    script,
+    segments,
+    audioParts,
+    failed: () => !!failure,
+    voiced: speaking.then(() => failure),
+  };
+}
+
+// Streams the story, telling it again when a segment is flagged and the
+// moderation policy allows: the client is told to restart, then hears a
+// gentler retelling (rewrite) or a canned safe story (substitute). Under
+// the block policy, or when the retelling is flagged too, the stream ends
+// with CONTENT_BLOCKED.
+export function streamStory(story: StoryRequest): Response {
+  const policy = getModerationPolicy();
+
+  const body = createEventStream(async (send) => {
+    try {
+      send({ type: "session", sessionId: story.sessionId });
+      send({ type: "transcript", text: story.transcript });
+
+      // Canned and cached scripts were checked before, so they skip the
+      // per-segment safety check
+      let approvedScript = story.cannedScript ?? story.cachedScript;
+      let gentle = story.gentle;
+
+      while (true) {
+        const telling = await streamScript(story, send, { approvedScript, gentle });
+
+        // Illustrate the finished story while its last segments are voiced
+        const illustration = telling.failed()
+          ? Promise.resolve(null)
+          : illustrateStory(formatScript(telling.segments), story.signal, story.usage);
+
+        const failure = await telling.voiced;
+        story.signal.throwIfAborted();
+
+        const retell =
+          failure instanceof ContentBlockedError &&
+          !approvedScript &&
+          (policy === "substitute" || (policy === "rewrite" && !gentle));
+        if (failure && !retell) throw failure;
+
+        if (retell) {
+          // A fallback story doesn't answer the request, so it isn't cached
+          story.cacheContext = undefined;
+          send({ type: "restart" });
+          if (policy === "substitute") {
+            approvedScript = pickSafeStory();
+          } else {
+            gentle = true;
+          }
+          continue;
+        }
+
+        const { script, segments, audioParts } = telling;
+        if (segments.length === 0) throw new VoiceError("NO_RESPONSE");
+
+        const responseText = formatScript(segments);
+        await recordStory(story, script, responseText, concatAudio(audioParts));
+
+        send({ type: "done", response: responseText });
+
+        const illustrationUrl = await illustration;
+        if (illustrationUrl) send({ type: "illustration", url: illustrationUrl });
+        break;
+      }
+
+      recordRequest(story.usage, "ok");
+    } catch (error) {
+      // The client is gone; there is nobody left to tell
+      if (story.signal.aborted) {
+        recordRequest(story.usage, "aborted");
+        return;
+      }
+
+      if (error instanceof ContentBlockedError) {
+        Sentry.captureMessage("Story content blocked", {
+          level: "info",
+          tags: { component: "voice-api", mode: "stream" },
+          extra: { reasons: reportableReasons(error.reasons) },
+        });
+      } else {
+        Sentry.captureException(error, {
+          tags: { component: "voice-api", mode: "stream", stage: failedStage(error) },
+        });
+      }
+
+      const voiceError = toVoiceError(error);
+      recordRequest(story.usage, voiceError.code);
+      send({ type: "error", error: voiceError.toBody() });
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      "Content-Type": `${STREAM_CONTENT_TYPE}; charset=utf-8`,
+      "Cache-Control": "no-cache, no-transform",
+      "X-Accel-Buffering": "no",
+      "X-Cache": cacheHeader(story),
+    },
+  });
+}
+
+// A story request once the route has read it and checked the caller
+export interface StoryInput extends StorySource {
+  sessionId?: string;
+  personaId?: string;
+  // The child the story is told to, already checked to be the caller's
+  profile?: ChildProfile;
+  // Language the child speaks, when known; detected otherwise
+  language?: string;
+  // Language to tell the story in, when it should differ from the child's
+  replyLanguage?: string;
+}
+
+// Trims the recording to the speech in it and transcribes it, in the
+// child's language when it is known. Silent clips stop before
+// transcription is paid for.
+async function transcribeRecording(
+  { audio, container, mimeType }: Recording,
+  language: LanguageCode | undefined,
+  usage: RequestUsage,
+  signal: AbortSignal
+): Promise<string> {
+  const { transcriber } = getProviders();
+
+  const upload = await measureStage("decode", async (span) => {
+    const normalized = (await normalizeUpload(audio, container, {
+      maxSeconds: MAX_UPLOAD_SECONDS,
+      signal,
+    })) ?? { audio, container, mimeType, duration: audioDuration(audio, container) ?? 0 };
+    span.setAttribute("voice.input_audio_seconds", normalized.duration);
+    return normalized;
+  });
+  usage.inputAudioSeconds = upload.duration;
+
+  const transcript = await measureStage("transcribe", () =>
+    transcriber.transcribe(
+      {
+        data: upload.audio,
+        filename: `audio.${upload.container}`,
+        mimeType: upload.mimeType,
+      },
+      {
+        language,
+        signal,
+        onModel: (model) => {
+          usage.models.transcribe = model;
+        },
+      }
+    )
+  );
+
+  if (!transcript || transcript.trim() === "") {
+    throw new VoiceError("UNINTELLIGIBLE");
+  }
+  return transcript;
+}
+
+export interface StoryContext {
+  // Rate limit and quota key of the caller
+  caller: string;
+  // The signed-in parent, if any
+  accountId?: string;
+  usage: RequestUsage;
+  // Format speech is sent in, or null for the provider's own
+  outputFormat: OutputFormat | null;
+  signal: AbortSignal;
+}
+
+// Everything up to the story itself: checks the options, works out what
+// the child asked for and whether it may be answered, and picks up the
+// session and any cached story. Throws a VoiceError for requests that
+// can't go on.
+export async function prepareStory(
+  {
+    recording,
+    text,
+    sessionId: requestedSessionId,
+    personaId = DEFAULT_PERSONA_ID,
+    profile,
+    language: requestedLanguage,
+    replyLanguage,
+  }: StoryInput,
+  { caller, accountId, usage, outputFormat, signal }: StoryContext
+): Promise<StoryRequest> {
+  if (
+    (requestedLanguage && !isLanguageCode(requestedLanguage)) ||
+    (replyLanguage && !isLanguageCode(replyLanguage))
+  ) {
+    throw new VoiceError("INVALID_REQUEST", undefined, "Unsupported language");
+  }
+
+  const persona = getPersona(personaId);
+  if (!persona) {
+    throw new VoiceError("UNKNOWN_PERSONA");
+  }
+
+  // Primary models until a stage reports a fallback answering instead
+  const { transcriber, generator, synthesizer, moderator, illustrator } = getProviders();
+  usage.models = {
+    transcribe: recording ? transcriber.model : undefined,
+    generate: generator.model,
+    synthesize: synthesizer.model,
+    illustrate: illustrator?.model,
+  };
+
+  // Typed requests skip decoding and transcription
+  const languageHint = (requestedLanguage as LanguageCode | undefined) ?? profile?.language;
+  let transcript: string;
+  if (text !== undefined) {
+    transcript = text;
+  } else if (recording) {
+    transcript = await transcribeRecording(recording, languageHint, usage, signal);
+  } else {
+    throw new VoiceError("NO_AUDIO");
+  }
+
+  // Check the child's request before anything is generated
+  const policy = getModerationPolicy();
+  const inputCheck = await measureStage("moderate", () =>
+    checkContent(transcript, moderator, { signal })
+  );
+  if (!inputCheck.allowed && policy === "block") {
+    throw contentBlocked(inputCheck.reasons);
+  }
+
+  // Continue the existing session, or start a new one if the id is
+  // missing or its history has expired
+  const history = isValidSessionId(requestedSessionId)
+    ? await sessions.get(requestedSessionId)
+    : null;
+
+  // Stories follow the child's language unless a reply language is set
+  // for language practice
+  const inputLanguage = languageHint ?? detectLanguage(transcript);
+  const language = (replyLanguage as LanguageCode | undefined) ?? inputLanguage;
+
+  // Only first turns that passed the safety check are cached; follow-ups
+  // depend on the session history
+  const cacheContext =
+    !history?.length && inputCheck.allowed
+      ? [persona.id, JSON.stringify(profile ?? null), inputLanguage, language]
+      : undefined;
+  const cachedScript = cacheContext
+    ? ((await getStoryCache()?.pick(transcript, cacheContext)) ?? undefined)
+    : undefined;
+
+  return {
+    caller,
+    accountId,
+    sessionId: history && requestedSessionId ? requestedSessionId : createSessionId(),
+    history: history ?? [],
+    persona,
+    profile,
+    inputLanguage,
+    language,
+    transcript,
+    prompt: inputCheck.allowed ? transcript : SAFE_REQUEST,
+    gentle: !inputCheck.allowed,
+    cannedScript:
+      !inputCheck.allowed && policy === "substitute" ? pickSafeStory() : undefined,
+    cacheContext,
+    cachedScript,
+    outputFormat,
+    usage,
+    signal,
+  };
+}
+
+export interface ToldStory {
+  sessionId: string;
+  personaId: string;
+  language: LanguageCode;
+  inputLanguage: LanguageCode;
+  transcript: string;
+  // The story script, one "[Speaker] line" per segment
+  response: string;
+  segments: ReadAlongSegment[];
+  // The whole story, in the negotiated format
+  audio: SynthesizedAudio;
+  illustrationUrl?: string;
+  // X-Cache header value
+  cacheStatus: string;
+}
+
+// Generates, checks, voices and illustrates the whole story, then records
+// it. Throws a VoiceError when the story can't be told.
+export async function tellStory(story: StoryRequest): Promise<ToldStory> {
+  const { synthesizer } = getProviders();
+
+  // Generate the story script
+  const script = await generateSafeScript(story);
+  if (script === null) {
+    throw contentBlocked([]);
+  }
+
+  const segments = parseScript(script);
+
+  if (segments.length === 0) {
+    throw new VoiceError("NO_RESPONSE");
+  }
+
+  // Voice narration and dialogue with distinct TTS voices, and
+  // illustrate the story at the same time
+  const responseText = formatScript(segments);
+  const [audioParts, illustrationUrl] = await Promise.all([
+    synthesizeScript(segments, story, synthesizer),
+    illustrateStory(responseText, story.signal, story.usage),
+  ]);
+  const speech = concatAudio(audioParts);
+  const encoded = await encodeForClient(speech, story);
+
+  await recordStory(story, script, responseText, speech);
+
+  return {
+    sessionId: story.sessionId,
+    personaId: story.persona.id,
+    language: story.language,
+    inputLanguage: story.inputLanguage,
+    transcript: story.transcript,
+    response: responseText,
+    segments: readAlongSegments(segments, audioParts),
+    audio: encoded,
+    ...(illustrationUrl && { illustrationUrl }),
+    cacheStatus: cacheHeader(story, audioParts),
+  };
+}
@@ -0,0 +1,113 @@
+import { splitSentences } from "@/lib/voice-stream";
+
+// Stories are generated as a line-tagged script so narration and each
+// character's dialogue can be voiced separately:
+//
+//   [Narrator] Pip the penguin waddled to the edge of the ice.
+//   [Pip] I think I can fly today!
+//
+// Untagged lines are treated as narration, so a model that ignores the
+// format still produces a playable (single-voice) story.
+
+export const NARRATOR = "Narrator";
+
+export const SCRIPT_INSTRUCTIONS =
+  "Format the story as a script with one segment per line. Start every line with the speaker's name in square brackets: [Narrator] for narration, or the character's name for dialogue, e.g. [Pip] I think I can fly today! Dialogue lines contain only the words the character speaks, without quotation marks. Always use the same name for the same character.";
+
+export interface StorySegment {
+  speaker: string;
+  text: string;
+}
+
+function normalizeSpeaker(name: string): string {
+  const trimmed = name.trim();
+  return !trimmed || trimmed.toLowerCase() === NARRATOR.toLowerCase()
+    ? NARRATOR
+    : trimmed;
+}
+
+// Incrementally parses streamed script text. Complete lines are emitted as
+// segments, and long lines are emitted sentence by sentence so synthesis
+// can start before the line is finished.
+export class ScriptStreamParser {
+  private buffer = "";
+  private speaker: string | null = null;
+
+  push(delta: string): StorySegment[] {
+    this.buffer += delta;
+    const segments: StorySegment[] = [];
+
+    while (true) {
+      if (this.speaker === null) {
+        this.buffer = this.buffer.replace(/^\s+/, "");
+        if (!this.buffer) break;
+
+        if (this.buffer.startsWith("[")) {
+          const close = this.buffer.indexOf("]");
+          if (close === -1) break;
+          this.speaker = normalizeSpeaker(this.buffer.slice(1, close));
+          this.buffer = this.buffer.slice(close + 1);
+        } else {
+          this.speaker = NARRATOR;
+        }
+      }
+
+      const newline = this.buffer.indexOf("\n");
+      if (newline === -1) {
+        const { sentences, rest } = splitSentences(this.buffer);
+        this.buffer = rest;
+        segments.push(...this.toSegments(sentences));
+        break;
+      }
+
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 1);
+      const { sentences, rest } = splitSentences(line);
+      segments.push(...this.toSegments([...sentences, rest]));
+      this.speaker = null;
+    }
+
+    return segments;
+  }
+
+  end(): StorySegment[] {
+    const segments = this.push("\n");
+    this.buffer = "";
+    this.speaker = null;
+    return segments;
+  }
+
+  private toSegments(texts: string[]): StorySegment[] {
+    const speaker = this.speaker ?? NARRATOR;
+    return texts
+      .map((text) => text.trim().replace(/^["“]|["”]$/g, "").trim())
+      .filter(Boolean)
+      .map((text) => ({ speaker, text }));
+  }
+}
+
+// Parses a complete script, merging consecutive segments from the same
+// speaker so each voice needs as few synthesis calls as possible.
+export function parseScript(script: string): StorySegment[] {
+  const parser = new ScriptStreamParser();
+  const segments = [...parser.push(script), ...parser.end()];
+
+  return segments.reduce<StorySegment[]>((merged, segment) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text += " " + segment.text;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+// Renders segments as readable story text, with dialogue in quotes.
+export function formatSegment(segment: StorySegment): string {
+  return segment.speaker === NARRATOR ? segment.text : `"${segment.text}"`;
+}
+
+export function formatScript(segments: StorySegment[]): string {
+  return segments.map(formatSegment).join(" ");
+}
@@ -0,0 +1,175 @@
+import { randomUUID } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { SynthesizedAudio } from "@/lib/providers";
+
+// History of played stories for the parent dashboard. Each story is kept
+// as a JSON record next to its audio file, and is only ever read back for
+// the account it was told for.
+
+export interface StoryRecord {
+  id: string;
+  createdAt: string;
+  // The parent account the story was told for, and the child if one was
+  // picked
+  accountId?: string;
+  profileId?: string;
+  sessionId: string;
+  personaId: string;
+  transcript: string;
+  story: string;
+  audioFormat: string;
+}
+
+export interface StoryStore {
+  save(
+    record: Omit<StoryRecord, "id" | "createdAt" | "audioFormat">,
+    audio: SynthesizedAudio
+  ): Promise<StoryRecord>;
+  // The account's stories, newest first; `query` filters by keyword in
+  // the transcript or story
+  list(accountId: string, query?: string): Promise<StoryRecord[]>;
+  // Reads and deletes treat another account's story as missing
+  get(id: string, accountId: string): Promise<StoryRecord | null>;
+  getAudio(id: string, accountId: string): Promise<SynthesizedAudio | null>;
+  delete(id: string, accountId: string): Promise<boolean>;
+  // Deletes stories saved before `cutoff`; returns how many went
+  purge(cutoff: Date): Promise<number>;
+}
+
+const STORY_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isValidStoryId(value: unknown): value is string {
+  return typeof value === "string" && STORY_ID_PATTERN.test(value);
+}
+
+export function matchesQuery(record: StoryRecord, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle ||
+    record.transcript.toLowerCase().includes(needle) ||
+    record.story.toLowerCase().includes(needle)
+  );
+}
+
+export class FileStoryStore implements StoryStore {
+  constructor(private directory: string) {}
+
+  private recordPath(id: string) {
+    if (!isValidStoryId(id)) {
+      throw new Error("Invalid story id");
+    }
+    return path.join(this.directory, `${id}.json`);
+  }
+
+  private audioPath(id: string, format: string) {
+    return path.join(this.directory, `${id}.${format}`);
+  }
+
+  async save(
+    record: Omit<StoryRecord, "id" | "createdAt" | "audioFormat">,
+    audio: SynthesizedAudio
+  ) {
+    const saved: StoryRecord = {
+      ...record,
+      id: randomUUID(),
+      createdAt: new Date().toISOString(),
+      audioFormat: audio.format,
+    };
+
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write audio first so a listed record always has playable audio
+    await fs.writeFile(this.audioPath(saved.id, audio.format), audio.data);
+    await fs.writeFile(this.recordPath(saved.id), JSON.stringify(saved), "utf8");
+
+    return saved;
+  }
+
+  // Every story, whoever it belongs to
+  private async all(): Promise<StoryRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+
+    const records = await Promise.all(
+      files
+        .filter((file) => file.endsWith(".json"))
+        .map((file) => this.read(path.basename(file, ".json")))
+    );
+    return records.filter((record): record is StoryRecord => !!record);
+  }
+
+  private async read(id: string): Promise<StoryRecord | null> {
+    if (!isValidStoryId(id)) return null;
+
+    try {
+      const data = await fs.readFile(this.recordPath(id), "utf8");
+      return JSON.parse(data) as StoryRecord;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async list(accountId: string, query = "") {
+    return (await this.all())
+      .filter((record) => record.accountId === accountId && matchesQuery(record, query))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string, accountId: string) {
+    const record = await this.read(id);
+    return record?.accountId === accountId ? record : null;
+  }
+
+  async getAudio(id: string, accountId: string) {
+    const record = await this.get(id, accountId);
+    if (!record) return null;
+
+    try {
+      const data = await fs.readFile(this.audioPath(id, record.audioFormat));
+      return { data, format: record.audioFormat };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+
+  async delete(id: string, accountId: string) {
+    const record = await this.get(id, accountId);
+    if (!record) return false;
+
+    await this.remove(record);
+    return true;
+  }
+
+  async purge(cutoff: Date) {
+    const expired = (await this.all()).filter(
+      (record) => new Date(record.createdAt) < cutoff
+    );
+    for (const record of expired) {
+      await this.remove(record);
+    }
+    return expired.length;
+  }
+
+  private async remove(record: StoryRecord) {
+    await fs.rm(this.recordPath(record.id), { force: true });
+    await fs.rm(this.audioPath(record.id, record.audioFormat), { force: true });
+  }
+}
+
+let store: StoryStore | null = null;
+
+export function getStoryStore(): StoryStore {
+  if (!store) {
+    store = new FileStoryStore(
+      process.env.STORY_DIR || path.join(process.cwd(), ".data", "stories")
+    );
+  }
+  return store;
+}
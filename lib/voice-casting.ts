@@ -0,0 +1,38 @@
+import { NARRATOR } from "@/lib/story-script";
+
+// Voices available from the TTS provider, in casting order
+export const CHARACTER_VOICES = ["nova", "echo", "fable", "onyx", "shimmer", "alloy"];
+
+export const DEFAULT_NARRATOR_VOICE = "alloy";
+
+// Assigns a distinct voice to the narrator and to each character in the
+// order they first speak. Casting is deterministic, so the streamed and
+// buffered paths give a character the same voice. When a story has more
+// characters than voices, the pool wraps around.
+export class VoiceCaster {
+  private cast = new Map<string, string>();
+  private pool: string[];
+
+  constructor(
+    private narratorVoice = DEFAULT_NARRATOR_VOICE,
+    voices = CHARACTER_VOICES
+  ) {
+    this.pool = voices.filter((voice) => voice !== narratorVoice);
+    this.cast.set(NARRATOR, narratorVoice);
+  }
+
+  voiceFor(speaker: string): string {
+    const key = speaker.toLowerCase() === NARRATOR.toLowerCase() ? NARRATOR : speaker.toLowerCase();
+    let voice = this.cast.get(key);
+
+    if (!voice) {
+      const characterCount = this.cast.size - 1;
+      voice = this.pool.length
+        ? this.pool[characterCount % this.pool.length]
+        : this.narratorVoice;
+      this.cast.set(key, voice);
+    }
+
+    return voice;
+  }
+}
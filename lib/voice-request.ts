@@ -0,0 +1,183 @@
+import { NextRequest } from "next/server";
+import {
+  AudioContainer,
+  CONTAINER_MIME_TYPES,
+  audioDuration,
+  sniffAudioFormat,
+} from "@/lib/audio-probe";
+import { VoiceError } from "@/lib/errors";
+import { isRecord } from "@/lib/json-body";
+
+// Reads a /api/voice request in any of the accepted shapes:
+// - multipart/form-data with an `audio` file plus `sessionId`/`personaId`/
+//   `profileId`/`language`/`replyLanguage` fields
+// - a raw `audio/*` body, with those fields in the query string
+// - JSON with base64 `audio` (the original format, kept as a fallback)
+// Multipart and JSON requests may send `text` instead of `audio`, for
+// children who type rather than talk.
+
+export const MAX_UPLOAD_BYTES = Number(process.env.MAX_UPLOAD_BYTES) || 10 * 1024 * 1024;
+export const MAX_UPLOAD_SECONDS = Number(process.env.MAX_UPLOAD_SECONDS) || 30;
+export const MAX_TEXT_LENGTH = 500;
+
+// An uploaded recording that passed checkUpload
+export interface Recording {
+  audio: Buffer;
+  container: AudioContainer;
+  mimeType: string;
+}
+
+// What a story starts from: exactly one of the two is set
+export interface StorySource {
+  recording?: Recording;
+  // What the child typed, in place of a recording
+  text?: string;
+}
+
+export interface VoiceRequestBody extends StorySource {
+  sessionId?: string;
+  personaId?: string;
+  profileId?: string;
+  // Language the child speaks, when known; detected otherwise
+  language?: string;
+  // Language to tell the story in, when it should differ from the child's
+  replyLanguage?: string;
+}
+
+// Reads the body without ever buffering more than `limit` bytes, so an
+// oversized upload is rejected as soon as it crosses the line.
+export async function readBody(request: NextRequest, limit: number): Promise<Buffer> {
+  const declared = Number(request.headers.get("content-length"));
+  if (declared > limit) {
+    throw new VoiceError("AUDIO_TOO_LARGE");
+  }
+  if (!request.body) return Buffer.alloc(0);
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    total += value.length;
+    if (total > limit) {
+      await reader.cancel();
+      throw new VoiceError("AUDIO_TOO_LARGE");
+    }
+    chunks.push(value);
+  }
+
+  return Buffer.concat(chunks);
+}
+
+const optionalString = (value: unknown) =>
+  typeof value === "string" && value ? value : undefined;
+
+// Unlike the other fields, empty text is kept so it can be rejected
+const optionalText = (value: unknown) => (typeof value === "string" ? value : undefined);
+
+export async function readVoiceRequest(request: NextRequest): Promise<VoiceRequestBody> {
+  const contentType = request.headers.get("content-type") ?? "";
+  let audio: Buffer;
+  let text: string | undefined;
+  let fields: Omit<VoiceRequestBody, keyof StorySource>;
+
+  if (contentType.startsWith("multipart/form-data")) {
+    // Multipart framing adds a little on top of the file itself
+    const body = await readBody(request, MAX_UPLOAD_BYTES + 64 * 1024);
+    const form = await new Response(new Uint8Array(body), {
+      headers: { "Content-Type": contentType },
+    }).formData();
+
+    const file = form.get("audio");
+    audio = file instanceof Blob ? Buffer.from(await file.arrayBuffer()) : Buffer.alloc(0);
+    text = optionalText(form.get("text"));
+    fields = {
+      sessionId: optionalString(form.get("sessionId")),
+      personaId: optionalString(form.get("personaId")),
+      profileId: optionalString(form.get("profileId")),
+      language: optionalString(form.get("language")),
+      replyLanguage: optionalString(form.get("replyLanguage")),
+    };
+  } else if (contentType.startsWith("audio/")) {
+    audio = await readBody(request, MAX_UPLOAD_BYTES);
+    const params = request.nextUrl.searchParams;
+    fields = {
+      sessionId: optionalString(params.get("sessionId")),
+      personaId: optionalString(params.get("personaId")),
+      profileId: optionalString(params.get("profileId")),
+      language: optionalString(params.get("language")),
+      replyLanguage: optionalString(params.get("replyLanguage")),
+    };
+  } else {
+    // Base64 inflates the payload by a third
+    const body = await readBody(request, Math.ceil((MAX_UPLOAD_BYTES * 4) / 3) + 64 * 1024);
+    let json: unknown;
+    try {
+      json = JSON.parse(body.toString("utf8"));
+    } catch {
+      throw new VoiceError("INVALID_REQUEST");
+    }
+    if (!isRecord(json)) {
+      throw new VoiceError("INVALID_REQUEST", undefined, "Body must be a JSON object");
+    }
+
+    audio = typeof json.audio === "string" ? Buffer.from(json.audio, "base64") : Buffer.alloc(0);
+    text = optionalText(json.text);
+    fields = {
+      sessionId: optionalString(json.sessionId),
+      personaId: optionalString(json.personaId),
+      profileId: optionalString(json.profileId),
+      language: optionalString(json.language),
+      replyLanguage: optionalString(json.replyLanguage),
+    };
+  }
+
+  return { ...checkSource(audio, text), ...fields };
+}
+
+// Picks what the story starts from: the typed text when there is some,
+// otherwise the recording. Sending both is an INVALID_REQUEST.
+export function checkSource(audio: Buffer, text: string | undefined): StorySource {
+  if (text === undefined) {
+    return { recording: checkUpload(audio) };
+  }
+  if (audio.length > 0) {
+    throw new VoiceError("INVALID_REQUEST", undefined, "Send audio or text, not both");
+  }
+
+  const trimmed = text.trim();
+  if (!trimmed || trimmed.length > MAX_TEXT_LENGTH) {
+    throw new VoiceError(
+      "INVALID_REQUEST",
+      undefined,
+      `Text must be 1 to ${MAX_TEXT_LENGTH} characters`
+    );
+  }
+  return { text: trimmed };
+}
+
+// Checks an uploaded recording against the limits and identifies its
+// container from the bytes, not the declared type or `format` field
+export function checkUpload(audio: Buffer): Recording {
+  if (audio.length === 0) {
+    throw new VoiceError("NO_AUDIO");
+  }
+  if (audio.length > MAX_UPLOAD_BYTES) {
+    throw new VoiceError("AUDIO_TOO_LARGE");
+  }
+
+  const container = sniffAudioFormat(audio);
+  if (!container) {
+    throw new VoiceError("UNSUPPORTED_AUDIO");
+  }
+
+  const duration = audioDuration(audio, container);
+  if (duration !== null && duration > MAX_UPLOAD_SECONDS) {
+    throw new VoiceError("AUDIO_TOO_LONG");
+  }
+
+  return { audio, container, mimeType: CONTAINER_MIME_TYPES[container] };
+}
@@ -0,0 +1,115 @@
+import type { ErrorBody } from "@/lib/errors";
+
+// Streaming protocol for /api/voice. Clients opt in with
+// `Accept: application/x-ndjson` and receive one JSON event per line.
+
+export const STREAM_CONTENT_TYPE = "application/x-ndjson";
+
+export type VoiceStreamEvent =
+  | { type: "session"; sessionId: string }
+  | { type: "transcript"; text: string }
+  | { type: "delta"; text: string }
+  // `text` is the segment voiced by `audio`; `duration` its length in
+  // seconds, when the server could read it
+  | {
+      type: "audio";
+      index: number;
+      speaker: string;
+      text: string;
+      duration?: number;
+      audio: string;
+      format: string;
+    }
+  // A segment was flagged and the story is being told again: drop what
+  // was heard so far, a new story follows
+  | { type: "restart" }
+  | { type: "done"; response: string }
+  // Sent after "done" when the story was illustrated; the stream stays
+  // open until the picture is ready or has failed
+  | { type: "illustration"; url: string }
+  // Same body as the error envelope of a non-streamed response
+  | { type: "error"; error: ErrorBody };
+
+export function wantsStream(accept: string | null): boolean {
+  return !!accept && accept.includes(STREAM_CONTENT_TYPE);
+}
+
+// Wraps an async producer in a ReadableStream of NDJSON lines.
+// The stream is closed once the producer settles, whether or not it threw.
+// Events sent after the client has cancelled the stream are dropped.
+export function createEventStream(
+  run: (send: (event: VoiceStreamEvent) => void) => Promise<void>
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: VoiceStreamEvent) => {
+        if (cancelled) return;
+        controller.enqueue(encoder.encode(JSON.stringify(event) + "\n"));
+      };
+
+      try {
+        await run(send);
+      } finally {
+        if (!cancelled) controller.close();
+      }
+    },
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
+
+// Parses an NDJSON response body into events as lines arrive.
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<VoiceStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as VoiceStreamEvent;
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) yield JSON.parse(buffer) as VoiceStreamEvent;
+}
+
+// Splits complete sentences off the front of a growing text buffer.
+// Short sentences are merged so each TTS request has enough context to
+// sound natural; whatever is left over is returned as `rest`.
+export function splitSentences(
+  buffer: string,
+  minLength = 40
+): { sentences: string[]; rest: string } {
+  const boundary = /[.!?]+["'”’)]*\s+|\n+/g;
+  const sentences: string[] = [];
+  let current = "";
+  let start = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = boundary.exec(buffer))) {
+    const end = match.index + match[0].length;
+    current += buffer.slice(start, end);
+    start = end;
+
+    if (current.trim().length >= minLength) {
+      sentences.push(current.trim());
+      current = "";
+    }
+  }
+
+  return { sentences, rest: current + buffer.slice(start) };
+}
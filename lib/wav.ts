@@ -0,0 +1,111 @@
+// Minimal PCM WAV helpers (16-bit mono) used by local stand-in providers
+// and for stitching synthesized segments together.
+
+export const WAV_HEADER_SIZE = 44;
+
+export function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+  const dataSize = samples.length * 2;
+  const buffer = Buffer.alloc(WAV_HEADER_SIZE + dataSize);
+
+  buffer.write("RIFF", 0, "ascii");
+  buffer.writeUInt32LE(36 + dataSize, 4);
+  buffer.write("WAVE", 8, "ascii");
+  buffer.write("fmt ", 12, "ascii");
+  buffer.writeUInt32LE(16, 16); // fmt chunk size
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(1, 22); // mono
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * 2, 28); // byte rate
+  buffer.writeUInt16LE(2, 32); // block align
+  buffer.writeUInt16LE(16, 34); // bits per sample
+  buffer.write("data", 36, "ascii");
+  buffer.writeUInt32LE(dataSize, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    buffer.writeInt16LE(Math.round(clamped * 0x7fff), WAV_HEADER_SIZE + i * 2);
+  }
+
+  return buffer;
+}
+
+// Generates a sine tone with short fades so chunks don't click when
+// played back to back.
+export function generateTone(
+  durationSeconds: number,
+  frequency = 440,
+  sampleRate = 16000
+): Buffer {
+  const length = Math.round(durationSeconds * sampleRate);
+  const fade = Math.min(Math.round(sampleRate * 0.02), Math.floor(length / 2));
+  const samples = new Float32Array(length);
+
+  for (let i = 0; i < length; i++) {
+    const envelope = Math.min(1, i / fade, (length - 1 - i) / fade);
+    samples[i] = 0.3 * envelope * Math.sin((2 * Math.PI * frequency * i) / sampleRate);
+  }
+
+  return encodeWav(samples, sampleRate);
+}
+
+export interface WavInfo {
+  sampleRate: number;
+  channels: number;
+  bitsPerSample: number;
+  data: Buffer;
+}
+
+// Walks the RIFF chunks to find the format and PCM data, so files with
+// extra chunks (LIST, fact, ...) are handled too.
+export function readWav(buffer: Buffer): WavInfo {
+  if (
+    buffer.length < 12 ||
+    buffer.toString("ascii", 0, 4) !== "RIFF" ||
+    buffer.toString("ascii", 8, 12) !== "WAVE"
+  ) {
+    throw new Error("Not a WAV file");
+  }
+
+  let format: Omit<WavInfo, "data"> | null = null;
+  let offset = 12;
+
+  while (offset + 8 <= buffer.length) {
+    const id = buffer.toString("ascii", offset, offset + 4);
+    const size = buffer.readUInt32LE(offset + 4);
+    const body = offset + 8;
+
+    if (id === "fmt ") {
+      format = {
+        channels: buffer.readUInt16LE(body + 2),
+        sampleRate: buffer.readUInt32LE(body + 4),
+        bitsPerSample: buffer.readUInt16LE(body + 14),
+      };
+    } else if (id === "data" && format) {
+      return { ...format, data: buffer.subarray(body, Math.min(body + size, buffer.length)) };
+    }
+
+    // Chunks are padded to an even size
+    offset = body + size + (size % 2);
+  }
+
+  throw new Error("WAV file has no data chunk");
+}
+
+// Joins 16-bit mono WAV files that share a sample rate into one file.
+export function concatWav(parts: Buffer[]): Buffer {
+  const decoded = parts.map(readWav);
+  const { sampleRate } = decoded[0];
+
+  for (const part of decoded) {
+    if (part.sampleRate !== sampleRate || part.channels !== 1 || part.bitsPerSample !== 16) {
+      throw new Error("Cannot concatenate WAV files with different formats");
+    }
+  }
+
+  const data = Buffer.concat(decoded.map((part) => part.data));
+  const header = encodeWav(new Float32Array(0), sampleRate);
+  header.writeUInt32LE(36 + data.length, 4);
+  header.writeUInt32LE(data.length, 40);
+
+  return Buffer.concat([header, data]);
+}
@@ -0,0 +1,57 @@
+import path from "path";
+import { defineConfig, devices } from "@playwright/test";
+
+// Browser tests of the full record → story → playback loop. Chromium's fake
+// microphone plays a fixture recording, and the app talks to the mock
+// OpenAI API, so nothing leaves the machine.
+
+const APP_PORT = 3100;
+const MOCK_OPENAI_PORT = 4010;
+
+export default defineConfig({
+  testDir: "tests/e2e",
+  timeout: 60_000,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "list" : "html",
+  use: {
+    baseURL: `http://localhost:${APP_PORT}`,
+    trace: "retain-on-failure",
+  },
+  projects: [
+    {
+      name: "chromium",
+      use: {
+        ...devices["Desktop Chrome"],
+        permissions: ["microphone"],
+        launchOptions: {
+          args: [
+            "--use-fake-ui-for-media-stream",
+            "--use-fake-device-for-media-stream",
+            `--use-file-for-fake-audio-capture=${path.join(import.meta.dirname, "tests/fixtures/speech.wav")}`,
+            "--autoplay-policy=no-user-gesture-required",
+          ],
+        },
+      },
+    },
+  ],
+  webServer: [
+    {
+      command: "npx tsx tests/e2e/mock-openai-server.ts",
+      env: { MOCK_OPENAI_PORT: String(MOCK_OPENAI_PORT) },
+      wait: { stdout: /listening/ },
+    },
+    {
+      command: `npx next dev -p ${APP_PORT}`,
+      url: `http://localhost:${APP_PORT}`,
+      timeout: 120_000,
+      reuseExistingServer: !process.env.CI,
+      env: {
+        OPENAI_API_KEY: "test-key",
+        OPENAI_BASE_URL: `http://127.0.0.1:${MOCK_OPENAI_PORT}/v1`,
+        VOICE_PROVIDER: "openai",
+        RESPONSE_CACHE: "off",
+        ILLUSTRATIONS: "off",
+      },
+    },
+  ],
+});
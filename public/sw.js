@@ -0,0 +1,81 @@
+// Keeps the app shell available offline. Pages come from the network and
+// fall back to the last cached copy; built assets never change under the
+// same URL, so they are served from the cache. API calls always go to the
+// network: stories for offline play are kept by the page itself, in
+// IndexedDB (lib/offline-library.ts).
+
+const CACHE_NAME = "voice-shell-v1";
+const SHELL = [
+  "/",
+  "/manifest.webmanifest",
+  "/icons/icon-192.png",
+  "/icons/icon-512.png",
+];
+
+// The home page's scripts, styles and fonts, found in its HTML, so the
+// shell works offline right after the first visit
+async function cacheShell() {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.addAll(SHELL);
+
+  const page = await cache.match("/");
+  const html = page ? await page.text() : "";
+  const assets = new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) ?? []);
+  await cache.addAll([...assets]);
+}
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(cacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) =>
+        Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = (await caches.match(request)) ?? (await caches.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  // Stories, accounts and error reports are never cached
+  if (url.pathname.startsWith("/api/") || url.pathname.startsWith("/monitoring")) return;
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request));
+  } else if (url.pathname.startsWith("/_next/static/") || SHELL.includes(url.pathname)) {
+    event.respondWith(cacheFirst(request));
+  }
+});
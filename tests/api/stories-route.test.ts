@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+import { GET as listStories } from "@/app/api/stories/route";
+import { DELETE as deleteStory, GET as getStory } from "@/app/api/stories/[id]/route";
+import { GET as getStoryAudio } from "@/app/api/stories/[id]/audio/route";
+import { AUTH_COOKIE, createToken } from "@/lib/accounts/auth";
+import { getStoryStore } from "@/lib/story-store";
+
+// The parent history: children's transcripts and recordings, for their
+// own parent's eyes only
+
+const storyId = "00000000-0000-4000-8000-000000000001";
+const params = { params: Promise.resolve({ id: storyId }) };
+
+function historyRequest(
+  path: string,
+  { method, accountId }: { method?: string; accountId?: string } = {}
+) {
+  const headers: Record<string, string> = {};
+  if (accountId) headers.cookie = `${AUTH_COOKIE}=${createToken("session", accountId, 3600)}`;
+  return new NextRequest(`http://localhost${path}`, { method, headers });
+}
+
+function saveStory(accountId: string, story: string) {
+  return getStoryStore().save(
+    {
+      accountId,
+      sessionId: crypto.randomUUID(),
+      personaId: "wizard",
+      transcript: "Tell me a story",
+      story,
+    },
+    { data: Buffer.from("audio"), format: "mp3" }
+  );
+}
+
+describe("story history routes", () => {
+  it("require a signed-in parent", async () => {
+    const responses = await Promise.all([
+      listStories(historyRequest("/api/stories")),
+      getStory(historyRequest(`/api/stories/${storyId}`), params),
+      getStoryAudio(historyRequest(`/api/stories/${storyId}/audio`), params),
+      deleteStory(historyRequest(`/api/stories/${storyId}`, { method: "DELETE" }), params),
+    ]);
+
+    expect(responses.map((response) => response.status)).toEqual([401, 401, 401, 401]);
+  });
+
+  it("only show a parent their own stories", async () => {
+    // The story directory outlives a test run
+    const [parentA, parentB] = [crypto.randomUUID(), crypto.randomUUID()];
+    const ours = await saveStory(parentA, "The owl who counted stars");
+    const theirs = await saveStory(parentB, "The owl who lost her hat");
+    const params = { params: Promise.resolve({ id: theirs.id }) };
+
+    const list = await listStories(historyRequest("/api/stories?q=owl", { accountId: parentA }));
+    const { stories } = await list.json();
+    expect(stories.map((story: { id: string }) => story.id)).toEqual([ours.id]);
+
+    const responses = await Promise.all([
+      getStory(historyRequest(`/api/stories/${theirs.id}`, { accountId: parentA }), params),
+      getStoryAudio(
+        historyRequest(`/api/stories/${theirs.id}/audio`, { accountId: parentA }),
+        params
+      ),
+      deleteStory(
+        historyRequest(`/api/stories/${theirs.id}`, { method: "DELETE", accountId: parentA }),
+        params
+      ),
+    ]);
+    expect(responses.map((response) => response.status)).toEqual([404, 404, 404]);
+    expect(await getStoryStore().get(theirs.id, parentB)).not.toBeNull();
+  });
+});
@@ -0,0 +1,147 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/v1/stories/route";
+import { GET as getOpenApi } from "@/app/api/v1/openapi.json/route";
+import { getApiKeyStore } from "@/lib/api/keys";
+import { validate } from "@/lib/api/schema";
+import { storyResponseSchema } from "@/lib/api/story-schemas";
+import { getStoryStore } from "@/lib/story-store";
+import { FIXTURES, MOCK_TRANSCRIPT, MockOpenAI, startMockOpenAI } from "../mock-openai";
+
+const speech = readFileSync(path.join(FIXTURES, "speech.wav"));
+
+let mock: MockOpenAI;
+
+beforeAll(async () => {
+  mock = await startMockOpenAI();
+  process.env.OPENAI_BASE_URL = mock.url;
+});
+
+afterEach(() => {
+  mock.reset();
+  vi.restoreAllMocks();
+});
+
+afterAll(() => mock.close());
+
+// A fresh key per test, so tests never share a rate limit or quota
+async function newKey() {
+  return (await getApiKeyStore().create("Test device")).secret;
+}
+
+function storyRequest(
+  body: BodyInit,
+  { key, headers = {}, query = "" }: { key?: string; headers?: Record<string, string>; query?: string }
+) {
+  return new NextRequest(`http://localhost/api/v1/stories${query}`, {
+    method: "POST",
+    body,
+    headers: {
+      "content-type": "application/json",
+      ...(key && { authorization: `Bearer ${key}` }),
+      ...headers,
+    },
+  });
+}
+
+const jsonBody = (fields: Record<string, unknown> = {}) =>
+  JSON.stringify({ audio: speech.toString("base64"), ...fields });
+
+describe("POST /api/v1/stories", () => {
+  it("answers base64 audio with a story matching the published schema", async () => {
+    const response = await POST(storyRequest(jsonBody(), { key: await newKey() }));
+
+    expect(response.status).toBe(200);
+    const body = await response.json();
+    expect(validate(storyResponseSchema, body)).toEqual([]);
+    expect(body.transcript).toBe(MOCK_TRANSCRIPT);
+    expect(body.audioFormat).toBe("mp3");
+  });
+
+  it("takes raw audio and answers with audio alone", async () => {
+    const response = await POST(
+      storyRequest(new Uint8Array(speech), {
+        key: await newKey(),
+        query: "?language=en",
+        headers: { "content-type": "audio/wav", accept: "audio/mpeg" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toBe("audio/mpeg");
+    expect(response.headers.get("x-session-id")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(response.headers.get("content-language")).toBe("en");
+    expect((await response.arrayBuffer()).byteLength).toBeGreaterThan(0);
+  });
+
+  it("requires an active API key", async () => {
+    const missing = await POST(storyRequest(jsonBody(), {}));
+    expect(missing.status).toBe(401);
+    expect((await missing.json()).error.code).toBe("UNAUTHORIZED");
+
+    const store = getApiKeyStore();
+    const { apiKey, secret } = await store.create("Returned device");
+    await store.revoke(apiKey.id);
+    const revoked = await POST(storyRequest(jsonBody(), { key: secret }));
+    expect(revoked.status).toBe(401);
+    expect(mock.requests).toHaveLength(0);
+  });
+
+  it("names the fields that don't match the request schema", async () => {
+    const response = await POST(
+      storyRequest(jsonBody({ language: "xx", mood: "happy" }), { key: await newKey() })
+    );
+
+    expect(response.status).toBe(400);
+    const { error } = await response.json();
+    expect(error.code).toBe("INVALID_REQUEST");
+    expect(error.message).toContain("body.language");
+    expect(error.message).toContain("body.mood");
+  });
+
+  it("replays the first response for a repeated Idempotency-Key", async () => {
+    const key = await newKey();
+    const headers = { "idempotency-key": "retry-1" };
+
+    const first = await POST(storyRequest(jsonBody(), { key, headers }));
+    expect(first.status).toBe(200);
+    const firstBody = await first.json();
+    const upstreamCalls = mock.requests.length;
+
+    const second = await POST(storyRequest(jsonBody(), { key, headers }));
+    expect(second.status).toBe(200);
+    expect(second.headers.get("idempotent-replayed")).toBe("true");
+    expect(await second.json()).toEqual(firstBody);
+    expect(mock.requests).toHaveLength(upstreamCalls);
+
+    const conflict = await POST(
+      storyRequest(jsonBody({ language: "es" }), { key, headers })
+    );
+    expect(conflict.status).toBe(409);
+    expect((await conflict.json()).error.code).toBe("IDEMPOTENCY_CONFLICT");
+  });
+
+  it("doesn't keep partner stories, which no parent could read back", async () => {
+    const save = vi.spyOn(getStoryStore(), "save");
+
+    const response = await POST(storyRequest(jsonBody(), { key: await newKey() }));
+
+    expect(response.status).toBe(200);
+    expect(save).not.toHaveBeenCalled();
+  });
+});
+
+describe("GET /api/v1/openapi.json", () => {
+  it("publishes the story schemas", async () => {
+    const response = await getOpenApi(new NextRequest("http://localhost/api/v1/openapi.json"));
+    const document = await response.json();
+
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.paths["/api/v1/stories"].post).toBeDefined();
+    expect(document.components.schemas.StoryResponse).toEqual(
+      JSON.parse(JSON.stringify(storyResponseSchema))
+    );
+  });
+});
@@ -0,0 +1,561 @@
+import { randomUUID } from "crypto";
+import { chmodSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import os from "os";
+import path from "path";
+import { NextRequest } from "next/server";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { POST } from "@/app/api/voice/route";
+import { GET as getMetrics } from "@/app/api/metrics/route";
+import { createToken } from "@/lib/accounts/auth";
+import { CONSENT_COOKIE } from "@/lib/accounts/consent";
+import { STREAM_CONTENT_TYPE, VoiceStreamEvent } from "@/lib/voice-stream";
+import { getQuotaTracker } from "@/lib/quota";
+import { getRateLimiter } from "@/lib/rate-limit";
+import { GENTLE_INSTRUCTIONS } from "@/lib/safety/moderation";
+import { generateTone } from "@/lib/wav";
+import {
+  FIXTURES,
+  MOCK_SCRIPT,
+  MOCK_TRANSCRIPT,
+  MockOpenAI,
+  apiError,
+  chatReply,
+  startMockOpenAI,
+} from "../mock-openai";
+
+const speech = readFileSync(path.join(FIXTURES, "speech.wav"));
+const silence = readFileSync(path.join(FIXTURES, "silence.wav"));
+
+let mock: MockOpenAI;
+
+beforeAll(async () => {
+  mock = await startMockOpenAI();
+  // Read when the OpenAI client is first created, on the first request
+  process.env.OPENAI_BASE_URL = mock.url;
+});
+
+afterEach(() => {
+  mock.reset();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  delete process.env.MODERATION_POLICY;
+});
+
+afterAll(() => mock.close());
+
+// Each request comes from its own address, so tests never share a rate
+// limit or quota
+let clientNumber = 0;
+
+interface VoiceRequestOptions {
+  audio?: Buffer;
+  fields?: Record<string, string>;
+  stream?: boolean;
+  consent?: boolean;
+  signal?: AbortSignal;
+}
+
+function voiceRequest({
+  audio = speech,
+  fields = {},
+  stream = false,
+  consent = true,
+  signal,
+}: VoiceRequestOptions = {}) {
+  const body = new FormData();
+  body.append("audio", new Blob([new Uint8Array(audio)]), "recording");
+  for (const [name, value] of Object.entries(fields)) body.append(name, value);
+
+  return rawRequest(body, { stream, consent, signal });
+}
+
+function rawRequest(
+  body: BodyInit,
+  {
+    contentType,
+    stream = false,
+    consent = true,
+    signal,
+  }: { contentType?: string; stream?: boolean; consent?: boolean; signal?: AbortSignal } = {}
+) {
+  const headers: Record<string, string> = {
+    "x-forwarded-for": `10.0.${Math.floor(++clientNumber / 250)}.${clientNumber % 250}`,
+    accept: stream ? STREAM_CONTENT_TYPE : "application/json",
+  };
+  if (contentType) headers["content-type"] = contentType;
+  if (consent) headers.cookie = `${CONSENT_COOKIE}=${createToken("consent", "device", 3600)}`;
+
+  return new NextRequest("http://localhost/api/voice", { method: "POST", body, headers, signal });
+}
+
+async function expectError(response: Response, status: number, code: string) {
+  expect(response.status).toBe(status);
+  const body = await response.json();
+  expect(body.error.code).toBe(code);
+  expect(typeof body.error.message).toBe("string");
+  return body;
+}
+
+// The route imported afresh, so the stages set up once per process (the
+// response cache, illustrations, ffmpeg) see `env`. The test config turns
+// them all off.
+async function routeWith(env: Record<string, string>): Promise<typeof POST> {
+  for (const [name, value] of Object.entries(env)) vi.stubEnv(name, value);
+  vi.resetModules();
+  return (await import("@/app/api/voice/route")).POST;
+}
+
+// A directory of its own under the test data directory
+function scratchDirectory(): string {
+  const directory = path.join(os.tmpdir(), "voice-tests", `scratch-${randomUUID()}`);
+  mkdirSync(directory, { recursive: true });
+  return directory;
+}
+
+async function readEvents(response: Response): Promise<VoiceStreamEvent[]> {
+  const text = await response.text();
+  return text
+    .split("\n")
+    .filter(Boolean)
+    .map((line) => JSON.parse(line));
+}
+
+describe("POST /api/voice", () => {
+  describe("success", () => {
+    it("answers a recording with a story, its audio and read-along timing", async () => {
+      const response = await POST(voiceRequest());
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.transcript).toBe(MOCK_TRANSCRIPT);
+      expect(body.response).toContain("friendly dragon named Ember");
+      expect(body.audioFormat).toBe("mp3");
+      expect(Buffer.from(body.audio, "base64").length).toBeGreaterThan(0);
+      expect(body.segments.map((segment: { speaker: string }) => segment.speaker)).toEqual([
+        "Narrator",
+        "Ember",
+        "Narrator",
+      ]);
+      expect(body.sessionId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(body.language).toBe("en");
+
+      const endpoints = mock.requests.map((request) => request.endpoint);
+      expect(endpoints).toContain("transcriptions");
+      expect(endpoints).toContain("chat");
+      expect(endpoints.filter((endpoint) => endpoint === "speech")).toHaveLength(3);
+    });
+
+    it("continues a session with the earlier turns in the prompt", async () => {
+      const first = await (await POST(voiceRequest())).json();
+      mock.reset();
+
+      const response = await POST(voiceRequest({ fields: { sessionId: first.sessionId } }));
+      expect(response.status).toBe(200);
+
+      const chat = mock.requests.find((request) => request.endpoint === "chat");
+      const messages = chat?.json?.messages as { role: string; content: string }[];
+      expect(messages.some((message) => message.role === "assistant")).toBe(true);
+    });
+
+    it("asks the speech provider for the negotiated format instead of transcoding", async () => {
+      const request = voiceRequest();
+      request.headers.set("accept-audio", "audio/aac, audio/mpeg;q=0.8");
+
+      const body = await (await POST(request)).json();
+
+      expect(body.audioFormat).toBe("aac");
+      const speech = mock.requests.filter((request) => request.endpoint === "speech");
+      expect(speech.map((request) => request.json?.response_format)).toEqual(["aac", "aac", "aac"]);
+    });
+
+    it("streams session, transcript, text and audio events, then done", async () => {
+      const response = await POST(voiceRequest({ stream: true }));
+
+      expect(response.headers.get("content-type")).toContain(STREAM_CONTENT_TYPE);
+      const events = await readEvents(response);
+      const types = events.map((event) => event.type);
+      expect(types.slice(0, 2)).toEqual(["session", "transcript"]);
+      expect(types.filter((type) => type === "audio")).toHaveLength(3);
+      expect(types.at(-1)).toBe("done");
+      expect(types).not.toContain("error");
+    });
+  });
+
+  describe("typed text", () => {
+    it("tells a story from text without transcribing anything", async () => {
+      const text = "A story about a brave little boat";
+      const request = rawRequest(JSON.stringify({ text }), { contentType: "application/json" });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(200);
+      const body = await response.json();
+      expect(body.transcript).toBe(text);
+      expect(Buffer.from(body.audio, "base64").length).toBeGreaterThan(0);
+      expect(body.segments.length).toBeGreaterThan(0);
+
+      const endpoints = mock.requests.map((request) => request.endpoint);
+      expect(endpoints).not.toContain("transcriptions");
+      expect(endpoints).toContain("moderations");
+      expect(endpoints).toContain("chat");
+      expect(endpoints).toContain("speech");
+    });
+
+    it("rejects empty text, and text sent with a recording", async () => {
+      const empty = new FormData();
+      empty.append("text", "   ");
+      await expectError(await POST(rawRequest(empty)), 400, "INVALID_REQUEST");
+
+      const both = new FormData();
+      both.append("audio", new Blob([new Uint8Array(speech)]), "recording");
+      both.append("text", "A story about a boat");
+      await expectError(await POST(rawRequest(both)), 400, "INVALID_REQUEST");
+
+      expect(mock.requests).toHaveLength(0);
+    });
+  });
+
+  describe("errors", () => {
+    it("requires parental consent", async () => {
+      await expectError(await POST(voiceRequest({ consent: false })), 403, "CONSENT_REQUIRED");
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("rejects callers over the rate limit with Retry-After", async () => {
+      vi.spyOn(getRateLimiter(), "consume").mockResolvedValueOnce({
+        allowed: false,
+        remaining: 0,
+        retryAfter: 7,
+      });
+
+      const response = await POST(voiceRequest());
+      const body = await expectError(response, 429, "RATE_LIMITED");
+      expect(body.error.retryAfter).toBe(7);
+      expect(response.headers.get("retry-after")).toBe("7");
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("limits anonymous callers by the address the proxy saw, not headers they send", async () => {
+      const consume = vi.spyOn(getRateLimiter(), "consume");
+      const request = voiceRequest();
+      request.headers.set("x-forwarded-for", "203.0.113.7, 10.9.9.9");
+      request.headers.set("x-api-key", "made-up-key");
+
+      await POST(request);
+
+      expect(consume).toHaveBeenCalledWith("ip:10.9.9.9");
+    });
+
+    it("rejects callers over their daily quota", async () => {
+      vi.spyOn(getQuotaTracker(), "check").mockResolvedValueOnce({
+        allowed: false,
+        usage: { stories: 20, audioSeconds: 0 },
+        retryAfter: 3600,
+      });
+
+      await expectError(await POST(voiceRequest()), 429, "QUOTA_EXCEEDED");
+    });
+
+    it("rejects a JSON body that doesn't parse", async () => {
+      const request = rawRequest("{not json", { contentType: "application/json" });
+      await expectError(await POST(request), 400, "INVALID_REQUEST");
+    });
+
+    it("rejects a JSON body that isn't an object", async () => {
+      for (const body of ["null", "42", "[]"]) {
+        const request = rawRequest(body, { contentType: "application/json" });
+        await expectError(await POST(request), 400, "INVALID_REQUEST");
+      }
+    });
+
+    it("rejects an unsupported language", async () => {
+      const request = voiceRequest({ fields: { replyLanguage: "xx" } });
+      await expectError(await POST(request), 400, "INVALID_REQUEST");
+    });
+
+    it("rejects a request without audio", async () => {
+      const request = rawRequest(JSON.stringify({}), { contentType: "application/json" });
+      await expectError(await POST(request), 400, "NO_AUDIO");
+    });
+
+    it("rejects an upload over the size limit", async () => {
+      const request = rawRequest(new Uint8Array(300 * 1024), { contentType: "audio/wav" });
+      await expectError(await POST(request), 413, "AUDIO_TOO_LARGE");
+    });
+
+    it("rejects a recording over the length limit", async () => {
+      const long = generateTone(11, 300, 8000);
+      await expectError(await POST(voiceRequest({ audio: long })), 413, "AUDIO_TOO_LONG");
+    });
+
+    it("rejects a file that isn't audio", async () => {
+      const request = voiceRequest({ audio: Buffer.from("definitely not audio") });
+      await expectError(await POST(request), 415, "UNSUPPORTED_AUDIO");
+    });
+
+    it("rejects an unknown persona", async () => {
+      const request = voiceRequest({ fields: { personaId: "no-such-persona" } });
+      await expectError(await POST(request), 400, "UNKNOWN_PERSONA");
+    });
+
+    it("rejects a profile that isn't the caller's", async () => {
+      const request = voiceRequest({
+        fields: { profileId: "00000000-0000-4000-8000-000000000000" },
+      });
+      await expectError(await POST(request), 400, "UNKNOWN_PROFILE");
+    });
+
+    it("turns away a silent recording before transcription", async () => {
+      await expectError(await POST(voiceRequest({ audio: silence })), 400, "NO_SPEECH");
+      expect(mock.requests).toHaveLength(0);
+    });
+
+    it("reports an empty transcript as unintelligible", async () => {
+      mock.on("transcriptions", () => ({ json: { text: "  " } }));
+      await expectError(await POST(voiceRequest()), 400, "UNINTELLIGIBLE");
+    });
+
+    it("blocks a flagged request under the block policy", async () => {
+      process.env.MODERATION_POLICY = "block";
+      mock.on("moderations", () => ({
+        json: { results: [{ flagged: true, categories: { violence: true } }] },
+      }));
+
+      await expectError(await POST(voiceRequest()), 422, "CONTENT_BLOCKED");
+      expect(mock.requests.map((request) => request.endpoint)).not.toContain("chat");
+    });
+
+    it("blocks a story that stays unsafe after the gentler retry", async () => {
+      mock.on("moderations", (request) => ({
+        json: {
+          results: [
+            {
+              flagged: String(request.json?.input).includes("dragon named Ember"),
+              categories: {},
+            },
+          ],
+        },
+      }));
+
+      await expectError(await POST(voiceRequest()), 422, "CONTENT_BLOCKED");
+      expect(mock.requests.filter((request) => request.endpoint === "chat")).toHaveLength(2);
+    });
+
+    it("reports a stage that takes too long as a timeout", async () => {
+      mock.on("transcriptions", () => ({ json: { text: MOCK_TRANSCRIPT }, delayMs: 2000 }));
+      await expectError(await POST(voiceRequest()), 504, "UPSTREAM_TIMEOUT");
+    });
+
+    it("reports a failing provider as an upstream error", async () => {
+      mock.on("chat", () => apiError(500));
+      await expectError(await POST(voiceRequest()), 502, "UPSTREAM_ERROR");
+    });
+
+    it("reports an empty story as no response", async () => {
+      mock.on("chat", (request) => chatReply("", request));
+      await expectError(await POST(voiceRequest()), 500, "NO_RESPONSE");
+    });
+
+    it("hides unexpected failures behind a generic error", async () => {
+      vi.spyOn(getQuotaTracker(), "check").mockRejectedValueOnce(new Error("disk on fire"));
+
+      const body = await expectError(await POST(voiceRequest()), 500, "INTERNAL_ERROR");
+      expect(body.error.message).not.toContain("disk on fire");
+    });
+
+    it("answers 499 when the client goes away mid-request", async () => {
+      const controller = new AbortController();
+      mock.on("transcriptions", () => {
+        controller.abort();
+        return { json: { text: MOCK_TRANSCRIPT }, delayMs: 200 };
+      });
+
+      const response = await POST(voiceRequest({ signal: controller.signal }));
+      expect(response.status).toBe(499);
+    });
+
+    it("ends a stream with an error event when a segment fails", async () => {
+      mock.on("speech", () => apiError(500));
+
+      const response = await POST(voiceRequest({ stream: true }));
+      expect(response.status).toBe(200);
+      const events = await readEvents(response);
+      const last = events.at(-1);
+      expect(last?.type).toBe("error");
+      expect(last?.type === "error" && last.error.code).toBe("UPSTREAM_ERROR");
+      expect(events.map((event) => event.type)).not.toContain("done");
+    });
+
+    describe("a flagged streamed segment", () => {
+      const flagFlying = () =>
+        mock.on("moderations", (request) => ({
+          json: {
+            results: [
+              { flagged: String(request.json?.input).includes("fly with me"), categories: {} },
+            ],
+          },
+        }));
+      const storyChats = () =>
+        mock.requests.filter((request) => request.endpoint === "chat" && request.json?.stream);
+      const sentText = (events: VoiceStreamEvent[]) =>
+        events.map((event) => (event.type === "delta" ? event.text : "")).join("");
+
+      it("ends the stream with CONTENT_BLOCKED under the block policy", async () => {
+        process.env.MODERATION_POLICY = "block";
+        flagFlying();
+
+        const events = await readEvents(await POST(voiceRequest({ stream: true })));
+        const last = events.at(-1);
+        expect(last?.type === "error" && last.error.code).toBe("CONTENT_BLOCKED");
+        // The flagged line is never sent as text or audio
+        expect(sentText(events)).not.toContain("fly with me");
+        expect(events.map((event) => event.type)).not.toContain("restart");
+      });
+
+      it("closes the upstream completion once a segment is blocked", async () => {
+        process.env.MODERATION_POLICY = "block";
+        flagFlying();
+        const moreLines = Array(20).fill("[Narrator] And on they went.");
+        const longScript = [MOCK_SCRIPT, ...moreLines].join("\n");
+        mock.on("chat", (request) => ({ ...chatReply(longScript, request), eventIntervalMs: 20 }));
+
+        const events = await readEvents(await POST(voiceRequest({ stream: true })));
+        const last = events.at(-1);
+        expect(last?.type === "error" && last.error.code).toBe("CONTENT_BLOCKED");
+        await vi.waitFor(() => expect(storyChats()[0].aborted).toBe(true));
+      });
+
+      it("restarts with a gentler retelling under the rewrite policy", async () => {
+        process.env.MODERATION_POLICY = "rewrite";
+        flagFlying();
+        const gentleScript = "[Narrator] A sleepy dragon named Ember curled up for a nap. The end.";
+        mock.on("chat", (request) => {
+          const messages = (request.json?.messages ?? []) as { content: string }[];
+          const gentle = messages.some((message) => message.content.includes(GENTLE_INSTRUCTIONS));
+          return chatReply(gentle ? gentleScript : MOCK_SCRIPT, request);
+        });
+
+        const events = await readEvents(await POST(voiceRequest({ stream: true })));
+        const types = events.map((event) => event.type);
+        const restart = types.indexOf("restart");
+        expect(restart).toBeGreaterThan(0);
+        expect(types.slice(restart + 1)).toContain("audio");
+        const last = events.at(-1);
+        expect(last?.type === "done" && last.response).toContain("sleepy dragon");
+        expect(sentText(events)).not.toContain("fly with me");
+        expect(storyChats()).toHaveLength(2);
+      });
+
+      it("ends with CONTENT_BLOCKED when the gentler retelling is flagged too", async () => {
+        process.env.MODERATION_POLICY = "rewrite";
+        flagFlying();
+
+        const events = await readEvents(await POST(voiceRequest({ stream: true })));
+        const last = events.at(-1);
+        expect(last?.type === "error" && last.error.code).toBe("CONTENT_BLOCKED");
+        expect(events.filter((event) => event.type === "restart")).toHaveLength(1);
+        expect(storyChats()).toHaveLength(2);
+      });
+
+      it("restarts with a canned safe story under the substitute policy", async () => {
+        process.env.MODERATION_POLICY = "substitute";
+        flagFlying();
+
+        const events = await readEvents(await POST(voiceRequest({ stream: true })));
+        const types = events.map((event) => event.type);
+        expect(types).toContain("restart");
+        const last = events.at(-1);
+        expect(last?.type).toBe("done");
+        expect(last?.type === "done" && last.response).not.toContain("Ember");
+        expect(storyChats()).toHaveLength(1);
+      });
+    });
+  });
+});
+
+describe("optional stages", () => {
+  it("answers a repeated request from the response cache", async () => {
+    const POST = await routeWith({
+      RESPONSE_CACHE: "on",
+      CACHE_DIR: scratchDirectory(),
+      STORY_CACHE_VARIANTS: "1",
+    });
+    const tell = () =>
+      POST(
+        rawRequest(JSON.stringify({ text: "A story about an owl who collects buttons" }), {
+          contentType: "application/json",
+        })
+      );
+
+    const first = await tell();
+    expect(first.status).toBe(200);
+    expect(first.headers.get("x-cache")).toBe("story=MISS, audio=MISS");
+    mock.reset();
+
+    const second = await tell();
+    expect(second.status).toBe(200);
+    expect(second.headers.get("x-cache")).toBe("story=HIT, audio=HIT");
+    const endpoints = mock.requests.map((request) => request.endpoint);
+    expect(endpoints).not.toContain("chat");
+    expect(endpoints).not.toContain("speech");
+  });
+
+  it("streams an illustration of the story", async () => {
+    const POST = await routeWith({ ILLUSTRATIONS: "on" });
+
+    const events = await readEvents(await POST(voiceRequest({ stream: true })));
+
+    const illustration = events.find((event) => event.type === "illustration");
+    expect(illustration?.type === "illustration" && illustration.url).toMatch(
+      /^\/api\/illustrations\//
+    );
+    expect(events.map((event) => event.type)).toContain("done");
+    expect(mock.requests.map((request) => request.endpoint)).toContain("images");
+  });
+
+  it("decodes compressed uploads with ffmpeg and transcribes only the speech", async () => {
+    // Stands in for ffmpeg: whatever the input, it "decodes" to a second
+    // of silence, a second of tone, then silence again
+    const ffmpeg = path.join(scratchDirectory(), "ffmpeg");
+    writeFileSync(
+      ffmpeg,
+      `#!${process.execPath}
+const rate = 16000;
+const pcm = Buffer.alloc(rate * 3 * 2);
+for (let i = rate; i < rate * 2; i++) {
+  pcm.writeInt16LE(Math.round(Math.sin(i / 8) * 8000), i * 2);
+}
+process.stdout.write(pcm);
+`
+    );
+    chmodSync(ffmpeg, 0o755);
+    const POST = await routeWith({ FFMPEG_PATH: ffmpeg });
+    const webm = Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3]), Buffer.alloc(512)]);
+
+    const response = await POST(voiceRequest({ audio: webm }));
+
+    expect(response.status).toBe(200);
+    const upload = mock.requests.find((request) => request.endpoint === "transcriptions");
+    const wav = upload?.body.subarray(upload.body.indexOf("RIFF"));
+    expect(wav?.toString("ascii", 8, 12)).toBe("WAVE");
+    // 16 kHz mono 16-bit: the second of tone plus a little padding, not
+    // the three seconds that were decoded
+    const seconds = (wav?.readUInt32LE(40) ?? 0) / 32000;
+    expect(seconds).toBeGreaterThan(0.9);
+    expect(seconds).toBeLessThan(2);
+  });
+});
+
+describe("GET /api/metrics", () => {
+  it("reports requests and stage timings once a story was told", async () => {
+    await POST(voiceRequest());
+
+    const response = await getMetrics(new NextRequest("http://localhost/api/metrics"));
+
+    expect(response.status).toBe(200);
+    const text = await response.text();
+    expect(text).toMatch(/^voice_requests_total\{mode="\w+",outcome="ok"\} [1-9]/m);
+    expect(text).toMatch(/^voice_stage_duration_seconds_count\{stage="transcribe"\} [1-9]/m);
+    expect(text).toMatch(/^voice_tokens_total\{kind="completion"\} [1-9]/m);
+  });
+});
@@ -0,0 +1,288 @@
+// @vitest-environment jsdom
+import { readFileSync } from "fs";
+import path from "path";
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import Home from "@/app/page";
+import { SavedStory, listSavedStories, saveStory } from "@/lib/offline-library";
+import { timeSegments } from "@/lib/read-along";
+import { STREAM_CONTENT_TYPE, VoiceStreamEvent } from "@/lib/voice-stream";
+import { FIXTURES, MOCK_TRANSCRIPT } from "../mock-openai";
+import { MockAudio, finishPlayback, installMediaMocks, media } from "../browser-mocks";
+
+// The home page's record → upload → playback loop, with the API answered
+// by canned responses
+
+// jsdom has no IndexedDB
+vi.mock("@/lib/offline-library", () => ({
+  listSavedStories: vi.fn(async () => []),
+  saveStory: vi.fn(async () => {}),
+  setFavorite: vi.fn(async () => {}),
+}));
+
+const storyAudio = readFileSync(path.join(FIXTURES, "story.mp3")).toString("base64");
+
+const segments = [
+  { speaker: "Narrator", text: "Once upon a time there was a dragon.", duration: 1 },
+  { speaker: "Ember", text: "Hello!", duration: 0.5 },
+];
+
+let voiceResponse: () => Response;
+let consentGiven = true;
+
+function json(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+function eventStream(events: VoiceStreamEvent[]) {
+  return new Response(events.map((event) => JSON.stringify(event)).join("\n") + "\n", {
+    headers: { "Content-Type": STREAM_CONTENT_TYPE },
+  });
+}
+
+const fetchMock = vi.fn<typeof fetch>(async (input) => {
+  const url = String(input);
+  if (url === "/api/personas") return json({ personas: [], defaultPersonaId: "storyteller" });
+  if (url === "/api/consent") return json({ consent: consentGiven, retentionDays: 30 });
+  if (url === "/api/auth/me") return json({ error: "Not signed in" }, 401);
+  if (url === "/api/voice") return voiceResponse();
+  throw new Error(`Unexpected fetch ${url}`);
+});
+
+beforeEach(() => {
+  installMediaMocks();
+  vi.stubGlobal("fetch", fetchMock);
+  fetchMock.mockClear();
+  vi.mocked(saveStory).mockClear();
+  consentGiven = true;
+  voiceResponse = () =>
+    json({
+      sessionId: "00000000-0000-4000-8000-000000000001",
+      transcript: MOCK_TRANSCRIPT,
+      response: segments.map((segment) => segment.text).join(" "),
+      audio: storyAudio,
+      audioFormat: "mp3",
+      segments,
+    });
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+async function renderHome() {
+  await act(async () => {
+    render(<Home />);
+  });
+}
+
+// Holds the record button, then lets go and waits for the story to load
+async function holdAndRelease() {
+  const button = await screen.findByRole("button", { name: "" });
+  await act(async () => {
+    fireEvent.pointerDown(button, { pointerId: 1 });
+  });
+  await act(async () => {
+    fireEvent.pointerUp(document, { pointerId: 1 });
+  });
+}
+
+describe("Home", () => {
+  it("primes an audio element during the press, then plays the story on it", async () => {
+    await renderHome();
+    await holdAndRelease();
+
+    // The element primed muted inside the gesture is the one that plays;
+    // any others only answered canPlayType for the Accept-Audio header
+    const [player, ...probes] = MockAudio.instances;
+    expect(probes.every((probe) => probe.play.mock.calls.length === 0)).toBe(true);
+    expect(player.play).toHaveBeenCalledTimes(2);
+    expect(player.muted).toBe(false);
+    expect(player.src).toMatch(/^blob:/);
+
+    const upload = fetchMock.mock.calls.find(([url]) => url === "/api/voice");
+    const body = upload?.[1]?.body as FormData;
+    expect(body.get("audio")).toBeInstanceOf(Blob);
+
+    expect(screen.getByText("Speaking...")).toBeTruthy();
+    expect(screen.getByText(MOCK_TRANSCRIPT)).toBeTruthy();
+
+    await act(async () => finishPlayback());
+    expect(await screen.findByText("Ready")).toBeTruthy();
+    expect(player.src).toBe("");
+
+    // Kept for playing offline
+    expect(saveStory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        transcript: MOCK_TRANSCRIPT,
+        chunks: [expect.objectContaining({ audio: storyAudio, format: "mp3" })],
+      }),
+      30
+    );
+  });
+
+  it("plays streamed chunks back to back in order", async () => {
+    voiceResponse = () =>
+      eventStream([
+        { type: "session", sessionId: "00000000-0000-4000-8000-000000000002" },
+        { type: "transcript", text: MOCK_TRANSCRIPT },
+        ...segments.map(
+          (segment, index): VoiceStreamEvent => ({
+            type: "audio",
+            index,
+            speaker: segment.speaker,
+            text: segment.text,
+            duration: segment.duration,
+            audio: storyAudio,
+            format: "mp3",
+          })
+        ),
+        { type: "done", response: "" },
+      ]);
+
+    await renderHome();
+    await holdAndRelease();
+
+    const [player] = MockAudio.instances;
+    const first = player.src;
+    expect(player.play).toHaveBeenCalledTimes(2);
+
+    await act(async () => finishPlayback());
+    expect(player.play).toHaveBeenCalledTimes(3);
+    expect(player.src).not.toBe(first);
+    expect(URL.revokeObjectURL).toHaveBeenCalledWith(first);
+
+    await act(async () => finishPlayback());
+    expect(await screen.findByText("Ready")).toBeTruthy();
+  });
+
+  it("drops the story heard so far when the server restarts it", async () => {
+    const audioEvent = (text: string): VoiceStreamEvent => ({
+      type: "audio",
+      index: 0,
+      speaker: "Narrator",
+      text,
+      duration: 1,
+      audio: storyAudio,
+      format: "mp3",
+    });
+    voiceResponse = () =>
+      eventStream([
+        { type: "session", sessionId: "00000000-0000-4000-8000-000000000003" },
+        { type: "transcript", text: MOCK_TRANSCRIPT },
+        audioEvent("The first telling."),
+        { type: "restart" },
+        audioEvent("A safe story."),
+        { type: "done", response: "A safe story." },
+      ]);
+
+    await renderHome();
+    await holdAndRelease();
+
+    const [player] = MockAudio.instances;
+    expect(player.pause).toHaveBeenCalled();
+    expect(player.play).toHaveBeenCalledTimes(3);
+
+    await act(async () => finishPlayback());
+    expect(await screen.findByText("Ready")).toBeTruthy();
+    expect(saveStory).toHaveBeenCalledWith(
+      expect.objectContaining({
+        segments: [expect.objectContaining({ speaker: "Narrator", start: 0, end: 1 })],
+        chunks: [expect.objectContaining({ start: 0, end: 1 })],
+      }),
+      30
+    );
+  });
+
+  it("shows the child-friendly message for an error code", async () => {
+    voiceResponse = () =>
+      json({ error: { code: "UNINTELLIGIBLE", message: "Could not understand audio" } }, 400);
+
+    await renderHome();
+    await holdAndRelease();
+
+    expect(await screen.findByText("I couldn't quite hear that. Can you say it again?")).toBeTruthy();
+    expect(screen.queryByText("Could not understand audio")).toBeNull();
+  });
+
+  it("offers a story kept on this device when the server can't be reached", async () => {
+    const saved: SavedStory = {
+      id: "saved-story",
+      savedAt: new Date().toISOString(),
+      favorite: true,
+      transcript: "A story about a sleepy owl",
+      segments: timeSegments([{ speaker: "Narrator", text: "The owl yawned.", duration: 1 }]),
+      chunks: [{ audio: storyAudio, format: "mp3", start: 0, end: 1 }],
+    };
+    vi.mocked(listSavedStories).mockResolvedValueOnce([saved]);
+    voiceResponse = () => {
+      throw new TypeError("Failed to fetch");
+    };
+
+    await renderHome();
+    await holdAndRelease();
+
+    const offer = await screen.findByRole("button", { name: /sleepy owl/ });
+    expect(screen.queryByText("Oops!")).toBeNull();
+
+    await act(async () => {
+      fireEvent.click(offer);
+    });
+
+    // A fresh element, played straight from the tap
+    const player = MockAudio.instances.at(-1);
+    expect(player?.play).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("Speaking...")).toBeTruthy();
+    expect(screen.getByText("A story about a sleepy owl")).toBeTruthy();
+  });
+
+  it("reports a failed playback", async () => {
+    await renderHome();
+    const button = await screen.findByRole("button", { name: "" });
+    await act(async () => {
+      fireEvent.pointerDown(button, { pointerId: 1 });
+    });
+    MockAudio.instances[0].play.mockRejectedValueOnce(new Error("NotAllowedError"));
+    await act(async () => {
+      fireEvent.pointerUp(document, { pointerId: 1 });
+    });
+
+    expect(await screen.findByText("I couldn't play the story. Tap to try again!")).toBeTruthy();
+  });
+
+  it("offers typing and story starters when the microphone is denied", async () => {
+    media.getUserMedia.mockRejectedValueOnce(
+      Object.assign(new Error("Permission denied"), { name: "NotAllowedError" })
+    );
+    await renderHome();
+    expect(screen.queryByText("Type your story idea instead")).toBeNull();
+
+    const button = await screen.findByRole("button", { name: "" });
+    await act(async () => {
+      fireEvent.pointerDown(button, { pointerId: 1 });
+    });
+
+    const starter = await screen.findByRole("button", { name: "A pirate who loves to bake" });
+    await act(async () => {
+      fireEvent.click(starter);
+    });
+
+    const upload = fetchMock.mock.calls.find(([url]) => url === "/api/voice");
+    const body = upload?.[1]?.body as FormData;
+    expect(body.get("text")).toBe("A pirate who loves to bake");
+    expect(body.get("audio")).toBeNull();
+    expect(await screen.findByText("Speaking...")).toBeTruthy();
+  });
+
+  it("asks a parent for consent before showing the record button", async () => {
+    consentGiven = false;
+    await renderHome();
+
+    expect(await screen.findByText("For grown-ups")).toBeTruthy();
+    expect(screen.queryByText("Hold to record")).toBeNull();
+  });
+});
@@ -0,0 +1,126 @@
+import { vi } from "vitest";
+
+// Stand-ins for the media APIs jsdom doesn't implement: the microphone
+// (getUserMedia), MediaRecorder, the AudioContext used for the input level
+// meter, and audio playback. Tests drive them by hand: set `inputLevel`,
+// call `recorder.stop()`, or end playback with `finishPlayback()`.
+
+export class MockMediaRecorder {
+  static instances: MockMediaRecorder[] = [];
+  static isTypeSupported = (type: string) => type.startsWith("audio/webm");
+
+  state: "inactive" | "recording" = "inactive";
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+  onstop: (() => void) | null = null;
+
+  constructor(
+    readonly stream: MediaStream,
+    readonly options: { mimeType?: string } = {}
+  ) {
+    MockMediaRecorder.instances.push(this);
+  }
+
+  start() {
+    this.state = "recording";
+  }
+
+  stop() {
+    if (this.state !== "recording") return;
+    this.state = "inactive";
+    this.ondataavailable?.({ data: new Blob(["recorded audio"], { type: this.options.mimeType }) });
+    this.onstop?.();
+  }
+}
+
+export class MockAudio {
+  static instances: MockAudio[] = [];
+
+  src = "";
+  muted = false;
+  currentTime = 0;
+  duration = NaN;
+  onended: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  play = vi.fn(() => Promise.resolve());
+  pause = vi.fn();
+  load = vi.fn();
+
+  constructor() {
+    MockAudio.instances.push(this);
+  }
+
+  canPlayType(type: string) {
+    return type === "audio/mpeg" ? "probably" : "";
+  }
+}
+
+export const media = {
+  // RMS level (0-1) the level meter reads from the microphone
+  inputLevel: 0,
+  track: { stop: vi.fn() },
+  getUserMedia: vi.fn(),
+};
+
+export class MockAudioContext {
+  static instances: MockAudioContext[] = [];
+
+  state: AudioContextState = "suspended";
+
+  constructor() {
+    MockAudioContext.instances.push(this);
+  }
+
+  resume() {
+    this.state = "running";
+    return Promise.resolve();
+  }
+
+  createAnalyser() {
+    return {
+      fftSize: 1024,
+      getFloatTimeDomainData: (samples: Float32Array) => samples.fill(media.inputLevel),
+    };
+  }
+
+  createMediaStreamSource() {
+    return { connect: () => {} };
+  }
+
+  close() {
+    this.state = "closed";
+    return Promise.resolve();
+  }
+}
+
+export function installMediaMocks() {
+  MockMediaRecorder.instances = [];
+  MockAudio.instances = [];
+  MockAudioContext.instances = [];
+  media.inputLevel = 0;
+  media.track.stop.mockClear();
+  media.getUserMedia.mockReset();
+  media.getUserMedia.mockResolvedValue({ getTracks: () => [media.track] });
+
+  Object.defineProperty(navigator, "mediaDevices", {
+    value: { getUserMedia: media.getUserMedia },
+    configurable: true,
+  });
+  vi.stubGlobal("MediaRecorder", MockMediaRecorder);
+  vi.stubGlobal("AudioContext", MockAudioContext);
+  vi.stubGlobal("Audio", MockAudio);
+  URL.createObjectURL = vi.fn(() => `blob:mock/${Math.random()}`);
+  URL.revokeObjectURL = vi.fn();
+}
+
+export function latestRecorder(): MockMediaRecorder {
+  const recorder = MockMediaRecorder.instances.at(-1);
+  if (!recorder) throw new Error("Nothing was recorded");
+  return recorder;
+}
+
+// Ends the chunk playing on whichever element is waiting for the end of one
+export function finishPlayback() {
+  const audio = MockAudio.instances.findLast((instance) => instance.onended);
+  if (!audio) throw new Error("Nothing is playing");
+  audio.onended?.();
+}
@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import { act, cleanup, fireEvent, render, screen } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import VoiceButton from "@/components/VoiceButton";
+import {
+  installMediaMocks,
+  latestRecorder,
+  media,
+  MockAudioContext,
+  MockMediaRecorder,
+} from "../browser-mocks";
+
+beforeEach(() => {
+  installMediaMocks();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+function renderButton(props: Partial<Parameters<typeof VoiceButton>[0]> = {}) {
+  const onRecordingComplete = vi.fn();
+  const onPressStart = vi.fn();
+  render(
+    <VoiceButton
+      onRecordingComplete={onRecordingComplete}
+      onPressStart={onPressStart}
+      isDisabled={false}
+      {...props}
+    />
+  );
+  return { button: screen.getByRole("button"), onRecordingComplete, onPressStart };
+}
+
+// Presses the button and waits for the microphone to open
+async function press(button: HTMLElement) {
+  await act(async () => {
+    fireEvent.pointerDown(button, { pointerId: 1 });
+  });
+}
+
+describe("VoiceButton", () => {
+  it("records while held and hands over the recording on release", async () => {
+    const { button, onRecordingComplete, onPressStart } = renderButton();
+
+    await press(button);
+    expect(onPressStart).toHaveBeenCalled();
+    expect(media.getUserMedia).toHaveBeenCalledWith({
+      audio: expect.objectContaining({ echoCancellation: false }),
+    });
+    expect(latestRecorder().state).toBe("recording");
+    expect(latestRecorder().options.mimeType).toBe("audio/webm;codecs=opus");
+
+    act(() => {
+      fireEvent.pointerUp(document, { pointerId: 1 });
+    });
+
+    expect(latestRecorder().state).toBe("inactive");
+    expect(onRecordingComplete).toHaveBeenCalledTimes(1);
+    const blob = onRecordingComplete.mock.calls[0][0] as Blob;
+    expect(blob.type).toBe("audio/webm;codecs=opus");
+    expect(media.track.stop).toHaveBeenCalled();
+  });
+
+  it("drops the microphone when released during the permission prompt", async () => {
+    let grant: (stream: unknown) => void = () => {};
+    media.getUserMedia.mockReturnValueOnce(new Promise((resolve) => (grant = resolve)));
+    const { button, onRecordingComplete } = renderButton();
+
+    fireEvent.pointerDown(button, { pointerId: 1 });
+    fireEvent.pointerUp(document, { pointerId: 1 });
+    await act(async () => {
+      grant({ getTracks: () => [media.track] });
+    });
+
+    expect(MockMediaRecorder.instances).toHaveLength(0);
+    expect(media.track.stop).toHaveBeenCalled();
+    expect(MockAudioContext.instances[0].state).toBe("closed");
+    expect(onRecordingComplete).not.toHaveBeenCalled();
+  });
+
+  it("starts the level meter within the tap and ignores taps while the mic is pending", async () => {
+    let grant: (stream: unknown) => void = () => {};
+    media.getUserMedia.mockReturnValueOnce(new Promise((resolve) => (grant = resolve)));
+    const { button, onPressStart } = renderButton({ mode: "tap" });
+
+    fireEvent.pointerDown(button, { pointerId: 1 });
+    expect(MockAudioContext.instances).toHaveLength(1);
+    expect(MockAudioContext.instances[0].state).toBe("running");
+
+    fireEvent.pointerDown(button, { pointerId: 2 });
+    expect(media.getUserMedia).toHaveBeenCalledTimes(1);
+    expect(onPressStart).toHaveBeenCalledTimes(1);
+
+    await act(async () => {
+      grant({ getTracks: () => [media.track] });
+    });
+    expect(MockMediaRecorder.instances).toHaveLength(1);
+    expect(latestRecorder().state).toBe("recording");
+  });
+
+  it("stops a hands-free recording after the child goes quiet", async () => {
+    vi.useFakeTimers();
+    const { button, onRecordingComplete } = renderButton({ mode: "tap", silenceDuration: 1 });
+
+    await press(button);
+    // Lifting the finger doesn't stop a hands-free recording
+    fireEvent.pointerUp(document, { pointerId: 1 });
+    expect(latestRecorder().state).toBe("recording");
+
+    media.inputLevel = 0.2;
+    act(() => {
+      vi.advanceTimersByTime(500);
+    });
+    media.inputLevel = 0;
+    act(() => {
+      vi.advanceTimersByTime(1200);
+    });
+
+    expect(latestRecorder().state).toBe("inactive");
+    expect(onRecordingComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("keeps a hands-free recording going until speech is heard", async () => {
+    vi.useFakeTimers();
+    const { button } = renderButton({ mode: "tap", silenceDuration: 1, maxDuration: 20 });
+
+    await press(button);
+    act(() => {
+      vi.advanceTimersByTime(3000);
+    });
+
+    expect(latestRecorder().state).toBe("recording");
+  });
+
+  it("stops at the maximum duration", async () => {
+    vi.useFakeTimers();
+    const { button, onRecordingComplete } = renderButton({ maxDuration: 2 });
+
+    await press(button);
+    act(() => {
+      vi.advanceTimersByTime(2100);
+    });
+
+    expect(onRecordingComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("explains when microphone access is denied", async () => {
+    media.getUserMedia.mockRejectedValueOnce(
+      Object.assign(new Error("Permission denied"), { name: "NotAllowedError" })
+    );
+    const onMicUnavailable = vi.fn();
+    const { button } = renderButton({ onMicUnavailable });
+
+    await press(button);
+
+    expect(screen.getByText(/Microphone access denied/)).toBeTruthy();
+    expect(MockMediaRecorder.instances).toHaveLength(0);
+    expect(onMicUnavailable).toHaveBeenCalledTimes(1);
+  });
+
+  it("reports a browser that can't record without asking for the microphone", async () => {
+    vi.stubGlobal("MediaRecorder", undefined);
+    const onMicUnavailable = vi.fn();
+    const { button } = renderButton({ onMicUnavailable });
+
+    expect(onMicUnavailable).toHaveBeenCalledTimes(1);
+    expect(screen.getByText("This device can't record sound.")).toBeTruthy();
+
+    await press(button);
+    expect(media.getUserMedia).not.toHaveBeenCalled();
+  });
+
+  it("ignores presses while disabled", async () => {
+    const { button, onPressStart } = renderButton({ isDisabled: true });
+
+    await press(button);
+
+    expect(onPressStart).not.toHaveBeenCalled();
+    expect(media.getUserMedia).not.toHaveBeenCalled();
+  });
+});
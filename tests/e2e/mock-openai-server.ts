@@ -0,0 +1,10 @@
+import { startMockOpenAI } from "../mock-openai";
+
+// Runs the mock OpenAI API on its own for the browser tests, which start
+// it next to the dev server (see playwright.config.ts)
+
+const port = Number(process.env.MOCK_OPENAI_PORT) || 4010;
+
+startMockOpenAI(port).then((mock) => {
+  console.log(`Mock OpenAI API listening on ${mock.url}`);
+});
@@ -0,0 +1,29 @@
+import { expect, test } from "@playwright/test";
+
+// Holds the record button while the fake microphone plays the fixture
+// recording, then waits for the story to be told and finish
+
+test("a held recording comes back as a spoken story", async ({ page }) => {
+  await page.goto("/");
+
+  // A parent agrees to recording first
+  await page.getByRole("checkbox").check();
+  await page.getByRole("button", { name: "Continue" }).click();
+
+  // The record button is the only one without a label
+  const recordButton = page.getByRole("button", { name: "", exact: true });
+  await expect(page.getByText("Ready")).toBeVisible();
+
+  await recordButton.hover();
+  await page.mouse.down();
+  await expect(page.getByText("Listening...")).toBeVisible();
+  await page.waitForTimeout(1500);
+  await page.mouse.up();
+
+  await expect(page.getByText("Tell me a story about a friendly dragon.")).toBeVisible();
+  await expect(page.getByText("Speaking...")).toBeVisible();
+  await expect(page.getByText(/friendly dragon named Ember/)).toBeVisible();
+
+  // The fixture story is a few seconds of silence
+  await expect(page.getByText("Ready")).toBeVisible({ timeout: 15_000 });
+});
@@ -0,0 +1,230 @@
+import { readFileSync } from "fs";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import path from "path";
+
+// A local stand-in for the OpenAI API, so the whole pipeline runs with no
+// network. It serves the endpoints the providers call with canned answers:
+// a transcript, a short story script (plain or streamed), fixture speech
+// audio, clean moderation results and a tiny image. Tests override any
+// endpoint with `on()` to return errors, delays or other content.
+
+export type MockEndpoint = "transcriptions" | "chat" | "speech" | "moderations" | "images";
+
+export interface MockRequest {
+  endpoint: MockEndpoint;
+  body: Buffer;
+  // Parsed body of JSON requests
+  json?: Record<string, unknown>;
+  // Set when the client hung up before the whole reply was sent
+  aborted?: boolean;
+}
+
+export interface MockReply {
+  status?: number;
+  // Sent as JSON unless `body` is set
+  json?: unknown;
+  body?: Buffer | string;
+  contentType?: string;
+  // Streamed as server-sent events, each chunk as one `data:` line
+  events?: unknown[];
+  // Pause between events, for a stream the client can give up on midway
+  eventIntervalMs?: number;
+  // Held this long before answering, to run into stage timeouts
+  delayMs?: number;
+}
+
+export type MockResponder = (request: MockRequest) => MockReply | Promise<MockReply>;
+
+export const FIXTURES = path.join(__dirname, "fixtures");
+
+export const MOCK_TRANSCRIPT = "Tell me a story about a friendly dragon.";
+export const MOCK_SCRIPT = [
+  "[Narrator] Once upon a time, a friendly dragon named Ember lived on a sunny hill.",
+  "[Ember] Would you like to fly with me?",
+  "[Narrator] And off they flew, over the clouds, all the way home.",
+].join("\n");
+export const MOCK_SCENE = "A small green dragon flies over fluffy clouds at sunset.";
+
+// 1x1 transparent PNG
+const TINY_IMAGE =
+  "iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=";
+
+const ROUTES: Record<string, MockEndpoint> = {
+  "/v1/audio/transcriptions": "transcriptions",
+  "/v1/chat/completions": "chat",
+  "/v1/audio/speech": "speech",
+  "/v1/moderations": "moderations",
+  "/v1/images/generations": "images",
+};
+
+// An error body shaped like OpenAI's, for `on()` overrides
+export function apiError(status: number, message = "Mock failure"): MockReply {
+  return { status, json: { error: { message, type: "server_error", code: null } } };
+}
+
+function completion(content: string) {
+  return {
+    id: "chatcmpl-mock",
+    object: "chat.completion",
+    created: 0,
+    model: "mock",
+    choices: [
+      { index: 0, message: { role: "assistant", content }, finish_reason: "stop" },
+    ],
+    usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+  };
+}
+
+// Splits the content into a few deltas, then adds the usage chunk the
+// providers ask for with stream_options
+function completionChunks(content: string): unknown[] {
+  const chunk = (delta: Record<string, unknown>, finish: string | null = null) => ({
+    id: "chatcmpl-mock",
+    object: "chat.completion.chunk",
+    created: 0,
+    model: "mock",
+    choices: [{ index: 0, delta, finish_reason: finish }],
+  });
+  const pieces = content.match(/[\s\S]{1,40}/g) ?? [];
+
+  return [
+    chunk({ role: "assistant", content: "" }),
+    ...pieces.map((piece) => chunk({ content: piece })),
+    chunk({}, "stop"),
+    {
+      id: "chatcmpl-mock",
+      object: "chat.completion.chunk",
+      created: 0,
+      model: "mock",
+      choices: [],
+      usage: { prompt_tokens: 100, completion_tokens: 50, total_tokens: 150 },
+    },
+  ];
+}
+
+// Replies like the real service would to a well-formed request
+export function chatReply(content: string, request: MockRequest): MockReply {
+  return request.json?.stream
+    ? { events: completionChunks(content) }
+    : { json: completion(content) };
+}
+
+const defaultResponders: Record<MockEndpoint, MockResponder> = {
+  transcriptions: () => ({ json: { text: MOCK_TRANSCRIPT } }),
+  chat: (request) => {
+    // Illustration requests ask for a scene; everything else is a story
+    const messages = (request.json?.messages ?? []) as { content: string }[];
+    const wantsScene = messages.some((message) => message.content.includes("illustration"));
+    return chatReply(wantsScene ? MOCK_SCENE : MOCK_SCRIPT, request);
+  },
+  speech: () => ({
+    body: readFileSync(path.join(FIXTURES, "story.mp3")),
+    contentType: "audio/mpeg",
+  }),
+  moderations: () => ({
+    json: {
+      id: "modr-mock",
+      model: "omni-moderation-latest",
+      results: [{ flagged: false, categories: {}, category_scores: {} }],
+    },
+  }),
+  images: () => ({ json: { created: 0, data: [{ b64_json: TINY_IMAGE }] } }),
+};
+
+export interface MockOpenAI {
+  // Base URL for OPENAI_BASE_URL, ending in /v1
+  url: string;
+  // Every request received, oldest first
+  requests: MockRequest[];
+  // Replaces the answer of one endpoint until reset()
+  on(endpoint: MockEndpoint, responder: MockResponder): void;
+  reset(): void;
+  close(): Promise<void>;
+}
+
+async function readBody(request: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function send(response: ServerResponse, reply: MockReply) {
+  if (reply.delayMs) {
+    await new Promise((resolve) => setTimeout(resolve, reply.delayMs));
+    // The client gave up waiting
+    if (response.destroyed) return;
+  }
+
+  const status = reply.status ?? 200;
+  if (reply.events) {
+    response.writeHead(status, { "Content-Type": "text/event-stream" });
+    for (const event of reply.events) {
+      if (reply.eventIntervalMs) {
+        await new Promise((resolve) => setTimeout(resolve, reply.eventIntervalMs));
+        if (response.destroyed) return;
+      }
+      response.write(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    response.end("data: [DONE]\n\n");
+    return;
+  }
+
+  const body = reply.body ?? JSON.stringify(reply.json ?? {});
+  response.writeHead(status, {
+    "Content-Type": reply.contentType ?? (reply.body ? "application/octet-stream" : "application/json"),
+  });
+  response.end(body);
+}
+
+export async function startMockOpenAI(port = 0): Promise<MockOpenAI> {
+  const overrides = new Map<MockEndpoint, MockResponder>();
+  const requests: MockRequest[] = [];
+
+  const server: Server = createServer(async (request, response) => {
+    const endpoint = ROUTES[new URL(request.url ?? "/", "http://localhost").pathname];
+    if (!endpoint || request.method !== "POST") {
+      await send(response, apiError(404, `No mock for ${request.method} ${request.url}`));
+      return;
+    }
+
+    const body = await readBody(request);
+    const isJson = request.headers["content-type"]?.startsWith("application/json");
+    const mockRequest: MockRequest = {
+      endpoint,
+      body,
+      json: isJson ? JSON.parse(body.toString("utf8")) : undefined,
+    };
+    requests.push(mockRequest);
+    response.on("close", () => {
+      if (!response.writableFinished) mockRequest.aborted = true;
+    });
+
+    try {
+      const responder = overrides.get(endpoint) ?? defaultResponders[endpoint];
+      await send(response, await responder(mockRequest));
+    } catch (error) {
+      await send(response, apiError(500, String(error)));
+    }
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}/v1`,
+    requests,
+    on(endpoint, responder) {
+      overrides.set(endpoint, responder);
+    },
+    reset() {
+      overrides.clear();
+      requests.length = 0;
+    },
+    close() {
+      // Delayed replies would otherwise hold the server open
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,47 @@
+import os from "os";
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+// Unit, route and component tests. Everything runs offline: OpenAI calls
+// go to the mock server in tests/mock-openai.ts, and data stores write
+// under a temporary directory. Browser tests live in tests/e2e and run
+// with Playwright instead.
+
+const dataDir = path.join(os.tmpdir(), "voice-tests");
+
+export default defineConfig({
+  resolve: {
+    alias: { "@": import.meta.dirname },
+  },
+  test: {
+    include: ["tests/**/*.test.{ts,tsx}"],
+    environment: "node",
+    env: {
+      OPENAI_API_KEY: "test-key",
+      VOICE_PROVIDER: "openai",
+      AUTH_SECRET: "test-secret",
+      // Stages fail fast, with no retries or fallbacks to wait for
+      UPSTREAM_RETRIES: "0",
+      STT_FALLBACK_MODEL: "off",
+      LLM_FALLBACK_MODEL: "off",
+      TTS_FALLBACK_MODEL: "off",
+      STT_TIMEOUT_MS: "1000",
+      LLM_TIMEOUT_MS: "1000",
+      TTS_TIMEOUT_MS: "1000",
+      MODERATION_TIMEOUT_MS: "1000",
+      IMAGE_TIMEOUT_MS: "1000",
+      // The same results on machines with and without ffmpeg
+      FFMPEG_PATH: "ffmpeg-not-installed",
+      MAX_UPLOAD_BYTES: String(256 * 1024),
+      MAX_UPLOAD_SECONDS: "10",
+      RESPONSE_CACHE: "off",
+      ILLUSTRATIONS: "off",
+      DATA_RETENTION_DAYS: "off",
+      STORY_DIR: path.join(dataDir, "stories"),
+      ILLUSTRATION_DIR: path.join(dataDir, "illustrations"),
+      ACCOUNT_DIR: path.join(dataDir, "accounts"),
+      MAIL_DIR: path.join(dataDir, "mail"),
+      API_KEY_DIR: path.join(dataDir, "api-keys"),
+    },
+  },
+});